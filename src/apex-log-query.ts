@@ -0,0 +1,567 @@
+import { DebugLog, LogFilters } from './types';
+import { InvalidQueryError } from './errors';
+
+/**
+ * Fields selected for every ApexLog query
+ */
+export const APEX_LOG_FIELDS = [
+  'Id',
+  'LogUserId',
+  'LogLength',
+  'LastModifiedDate',
+  'Request',
+  'Operation',
+  'Application',
+  'Status',
+  'DurationMilliseconds',
+  'StartTime',
+  'Location'
+];
+
+const STRING_FIELDS = ['Operation', 'Status', 'Application', 'Request', 'Location', 'LogUserId'] as const;
+const NUMBER_FIELDS = ['DurationMilliseconds', 'LogLength'] as const;
+
+export type ApexLogStringField = typeof STRING_FIELDS[number];
+export type ApexLogNumberField = typeof NUMBER_FIELDS[number];
+export type ApexLogFilterField = ApexLogStringField | ApexLogNumberField;
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'LIKE';
+
+/**
+ * One WHERE condition, both as SOQL and as a predicate for logs already in memory
+ */
+export interface QueryCondition {
+  soql: string;
+  test: (log: DebugLog) => boolean;
+}
+
+const OPERATORS: ComparisonOperator[] = ['=', '!=', '<', '<=', '>', '>=', 'LIKE'];
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?(Z|[+-]\d{2}:?\d{2})$/;
+const ID_PATTERN = /^[a-zA-Z0-9]{15}([a-zA-Z0-9]{3})?$/;
+
+/**
+ * Escape a value for use inside a single-quoted SOQL string literal
+ */
+export function escapeSoqlString(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+}
+
+/**
+ * Composable, injection-safe builder for ApexLog SOQL queries.
+ * Every condition added through this class is validated and escaped, and
+ * conditions are always combined with AND.
+ * The same conditions can be applied to logs already in memory (see `filterLogs`),
+ * so local log sources behave like the Tooling API.
+ */
+export class ApexLogQuery {
+  private conditions: QueryCondition[] = [];
+
+  /**
+   * Build a query from the common CLI/search filters.
+   * Filters combine, so user, date range and a --where expression can all apply at once.
+   */
+  static fromFilters(filters: LogFilters): ApexLogQuery {
+    const query = new ApexLogQuery();
+
+    if (filters.userId) {
+      query.byUser(filters.userId);
+    }
+    if (filters.userIds && filters.userIds.length > 0) {
+      query.byUsers(filters.userIds);
+    }
+    if (filters.excludeUserIds && filters.excludeUserIds.length > 0) {
+      query.excludingUsers(filters.excludeUserIds);
+    }
+    if (filters.dateFrom) {
+      query.modifiedFrom(filters.dateFrom);
+    }
+    if (filters.dateTo) {
+      query.modifiedTo(filters.dateTo);
+    }
+    if (filters.where) {
+      query.whereExpression(filters.where);
+    }
+
+    return query;
+  }
+
+  /**
+   * Restrict to logs written by a single user
+   */
+  byUser(userId: string): this {
+    return this.byUsers([userId]);
+  }
+
+  /**
+   * Restrict to logs written by any of the given users
+   */
+  byUsers(userIds: string[]): this {
+    userIds.forEach(userId => {
+      if (!ID_PATTERN.test(userId)) {
+        throw new InvalidQueryError(`Invalid user ID: ${userId}`);
+      }
+    });
+
+    // SOQL treats 15- and 18-character IDs as equal, so compare on the 15-character prefix
+    const test = (log: DebugLog) => userIds.some(userId => (log.LogUserId || '').substring(0, 15) === userId.substring(0, 15));
+    if (userIds.length === 1) {
+      this.conditions.push({ soql: `LogUserId = '${userIds[0]}'`, test });
+    } else if (userIds.length > 1) {
+      this.conditions.push({ soql: `LogUserId IN (${userIds.map(id => `'${id}'`).join(', ')})`, test });
+    }
+    return this;
+  }
+
+  /**
+   * Leave out logs written by any of the given users
+   */
+  excludingUsers(userIds: string[]): this {
+    userIds.forEach(userId => {
+      if (!ID_PATTERN.test(userId)) {
+        throw new InvalidQueryError(`Invalid user ID: ${userId}`);
+      }
+    });
+
+    const excluded = new Set(userIds.map(userId => userId.substring(0, 15)));
+    this.conditions.push({
+      soql: `LogUserId NOT IN (${userIds.map(id => `'${id}'`).join(', ')})`,
+      test: log => !excluded.has((log.LogUserId || '').substring(0, 15))
+    });
+    return this;
+  }
+
+  /**
+   * Restrict to the logs with the given IDs
+   */
+  byIds(logIds: string[]): this {
+    logIds.forEach(logId => {
+      if (!ID_PATTERN.test(logId)) {
+        throw new InvalidQueryError(`Invalid log ID: ${logId}`);
+      }
+    });
+
+    const ids = new Set(logIds);
+    this.conditions.push({
+      soql: `Id IN (${logIds.map(id => `'${id}'`).join(', ')})`,
+      test: log => ids.has(log.Id)
+    });
+    return this;
+  }
+
+  /**
+   * Restrict to logs modified at or after the given ISO datetime
+   */
+  modifiedFrom(dateTime: string): this {
+    const literal = ApexLogQuery.toDateTimeLiteral(dateTime);
+    this.conditions.push({
+      soql: `LastModifiedDate >= ${literal}`,
+      test: log => Date.parse(log.LastModifiedDate) >= Date.parse(literal)
+    });
+    return this;
+  }
+
+  /**
+   * Restrict to logs modified at or before the given ISO datetime
+   */
+  modifiedTo(dateTime: string): this {
+    const literal = ApexLogQuery.toDateTimeLiteral(dateTime);
+    this.conditions.push({
+      soql: `LastModifiedDate <= ${literal}`,
+      test: log => Date.parse(log.LastModifiedDate) <= Date.parse(literal)
+    });
+    return this;
+  }
+
+  /**
+   * Restrict to logs that sort after the given log in LastModifiedDate DESC, Id DESC order.
+   * Used for keyset paging.
+   */
+  olderThan(log: { LastModifiedDate: string; Id: string }): this {
+    const date = ApexLogQuery.toDateTimeLiteral(log.LastModifiedDate);
+    const id = escapeSoqlString(log.Id);
+    this.conditions.push({
+      soql: `(LastModifiedDate < ${date} OR (LastModifiedDate = ${date} AND Id < '${id}'))`,
+      test: candidate => ApexLogQuery.compareLogs(candidate, log) > 0
+    });
+    return this;
+  }
+
+  /**
+   * Restrict to logs that sort before the given log in LastModifiedDate DESC, Id DESC order,
+   * i.e. logs written after it. Used to poll for new logs.
+   */
+  newerThan(log: { LastModifiedDate: string; Id: string }): this {
+    const date = ApexLogQuery.toDateTimeLiteral(log.LastModifiedDate);
+    const id = escapeSoqlString(log.Id);
+    this.conditions.push({
+      soql: `(LastModifiedDate > ${date} OR (LastModifiedDate = ${date} AND Id > '${id}'))`,
+      test: candidate => ApexLogQuery.compareLogs(candidate, log) < 0
+    });
+    return this;
+  }
+
+  /**
+   * Add a single typed comparison
+   */
+  where(field: ApexLogFilterField, operator: ComparisonOperator, value: string | number): this {
+    this.conditions.push(ApexLogQuery.compileComparison(field, operator, value));
+    return this;
+  }
+
+  /**
+   * Add a filter expression such as `Status != 'Success' AND DurationMilliseconds > 5000`.
+   * The expression is parsed and rebuilt, so only known fields and escaped literals reach SOQL.
+   */
+  whereExpression(expression: string): this {
+    if (expression.trim().length > 0) {
+      const condition = new WhereExpressionParser(expression).parse();
+      this.conditions.push({ soql: `(${condition.soql})`, test: condition.test });
+    }
+    return this;
+  }
+
+  /**
+   * Copy this query so it can be extended without affecting the original
+   */
+  clone(): ApexLogQuery {
+    const copy = new ApexLogQuery();
+    copy.conditions = [...this.conditions];
+    return copy;
+  }
+
+  /**
+   * Build the WHERE clause (including the leading space), or an empty string
+   */
+  toWhereClause(): string {
+    return this.conditions.length > 0 ? ` WHERE ${this.conditions.map(condition => condition.soql).join(' AND ')}` : '';
+  }
+
+  /**
+   * Whether a log satisfies every condition of this query
+   */
+  matches(log: DebugLog): boolean {
+    return this.conditions.every(condition => condition.test(log));
+  }
+
+  /**
+   * Apply this query to logs already in memory, with the same ordering and limit as `toSoql`
+   */
+  filterLogs(logs: DebugLog[], limit?: number): DebugLog[] {
+    const matching = logs.filter(log => this.matches(log)).sort(ApexLogQuery.compareLogs);
+    return limit ? matching.slice(0, Math.floor(limit)) : matching;
+  }
+
+  /**
+   * Build a full ApexLog SELECT with a stable ordering so keyset paging can resume it
+   */
+  toSoql(limit?: number): string {
+    const limitClause = limit ? ` LIMIT ${Math.floor(limit)}` : '';
+    return `SELECT ${APEX_LOG_FIELDS.join(', ')} FROM ApexLog${this.toWhereClause()} ORDER BY LastModifiedDate DESC, Id DESC${limitClause}`;
+  }
+
+  /**
+   * Build a COUNT() query over the same conditions
+   */
+  toCountSoql(): string {
+    return `SELECT COUNT(Id) totalCount FROM ApexLog${this.toWhereClause()}`;
+  }
+
+  /**
+   * Validate a datetime and return it as an unquoted SOQL datetime literal
+   */
+  static toDateTimeLiteral(dateTime: string): string {
+    if (!DATETIME_PATTERN.test(dateTime)) {
+      throw new InvalidQueryError(`Invalid datetime: ${dateTime}. Use ISO 8601 format, e.g. 2024-01-15T00:00:00Z`);
+    }
+    return dateTime;
+  }
+
+  /**
+   * Order logs like `ORDER BY LastModifiedDate DESC, Id DESC`
+   */
+  static compareLogs(a: { LastModifiedDate: string; Id: string }, b: { LastModifiedDate: string; Id: string }): number {
+    const byDate = Date.parse(b.LastModifiedDate) - Date.parse(a.LastModifiedDate);
+    if (byDate !== 0) {
+      return byDate;
+    }
+    return a.Id < b.Id ? 1 : a.Id > b.Id ? -1 : 0;
+  }
+
+  /**
+   * Build a comparison, validating the field, operator and value type
+   */
+  static buildComparison(field: string, operator: string, value: string | number): string {
+    return ApexLogQuery.compileComparison(field, operator, value).soql;
+  }
+
+  /**
+   * Build a comparison as SOQL plus a predicate for in-memory logs
+   */
+  static compileComparison(field: string, operator: string, value: string | number): QueryCondition {
+    const canonicalField = ApexLogQuery.resolveField(field);
+    const canonicalOperator = operator.toUpperCase() === 'LIKE' ? 'LIKE' : operator === '<>' ? '!=' : operator;
+
+    if (!OPERATORS.includes(canonicalOperator as ComparisonOperator)) {
+      throw new InvalidQueryError(`Unsupported operator "${operator}"`);
+    }
+
+    if ((NUMBER_FIELDS as readonly string[]).includes(canonicalField)) {
+      if (canonicalOperator === 'LIKE') {
+        throw new InvalidQueryError(`LIKE cannot be used with numeric field ${canonicalField}`);
+      }
+      const numericValue = typeof value === 'number' ? value : Number(value);
+      if (typeof value === 'string' && value.trim() === '' || !Number.isFinite(numericValue)) {
+        throw new InvalidQueryError(`${canonicalField} must be compared to a number, got "${value}"`);
+      }
+      return {
+        soql: `${canonicalField} ${canonicalOperator} ${numericValue}`,
+        test: log => ApexLogQuery.compareValues(Number(log[canonicalField]), canonicalOperator as ComparisonOperator, numericValue)
+      };
+    }
+
+    if (typeof value !== 'string') {
+      throw new InvalidQueryError(`${canonicalField} must be compared to a quoted string, got ${value}`);
+    }
+
+    // SOQL string comparisons ignore case
+    const expected = value.toLowerCase();
+    const likePattern = canonicalOperator === 'LIKE' ? ApexLogQuery.likeToRegExp(value) : undefined;
+    return {
+      soql: `${canonicalField} ${canonicalOperator} '${escapeSoqlString(value)}'`,
+      test: log => {
+        const actual = String(log[canonicalField] ?? '');
+        return likePattern
+          ? likePattern.test(actual)
+          : ApexLogQuery.compareValues(actual.toLowerCase(), canonicalOperator as ComparisonOperator, expected);
+      }
+    };
+  }
+
+  private static compareValues<T extends string | number>(actual: T, operator: ComparisonOperator, expected: T): boolean {
+    switch (operator) {
+      case '=': return actual === expected;
+      case '!=': return actual !== expected;
+      case '<': return actual < expected;
+      case '<=': return actual <= expected;
+      case '>': return actual > expected;
+      case '>=': return actual >= expected;
+      default: return false;
+    }
+  }
+
+  /**
+   * Translate a LIKE pattern (% and _ wildcards, case-insensitive) to an anchored RegExp
+   */
+  private static likeToRegExp(pattern: string): RegExp {
+    const source = pattern
+      .split('')
+      .map(char => char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    return new RegExp(`^${source}$`, 'is');
+  }
+
+  /**
+   * Map a case-insensitive field name to its canonical ApexLog field
+   */
+  private static resolveField(field: string): ApexLogFilterField {
+    const allFields: readonly string[] = [...STRING_FIELDS, ...NUMBER_FIELDS];
+    const match = allFields.find(candidate => candidate.toLowerCase() === field.toLowerCase());
+    if (!match) {
+      throw new InvalidQueryError(`Unknown or unsupported field "${field}". Supported fields: ${allFields.join(', ')}`);
+    }
+    return match as ApexLogFilterField;
+  }
+}
+
+type Token =
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'keyword'; value: 'AND' | 'OR' | 'NOT' | 'LIKE' }
+  | { type: 'paren'; value: '(' | ')' };
+
+/**
+ * Recursive-descent parser for --where expressions.
+ *
+ *   expression := term (OR term)*
+ *   term       := factor (AND factor)*
+ *   factor     := NOT factor | '(' expression ')' | comparison
+ *   comparison := FIELD operator (STRING | NUMBER)
+ */
+class WhereExpressionParser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(private expression: string) {
+    this.tokens = this.tokenize(expression);
+  }
+
+  parse(): QueryCondition {
+    const result = this.parseExpression();
+    if (this.position < this.tokens.length) {
+      this.fail(`unexpected "${this.tokens[this.position].value}"`);
+    }
+    return result;
+  }
+
+  private parseExpression(): QueryCondition {
+    const parts = [this.parseTerm()];
+    while (this.matchKeyword('OR')) {
+      parts.push(this.parseTerm());
+    }
+    if (parts.length === 1) {
+      return parts[0];
+    }
+    // SOQL rejects AND/OR mixed without parentheses, so group each alternative
+    return {
+      soql: parts.map(part => `(${part.soql})`).join(' OR '),
+      test: log => parts.some(part => part.test(log))
+    };
+  }
+
+  private parseTerm(): QueryCondition {
+    const parts = [this.parseFactor()];
+    while (this.matchKeyword('AND')) {
+      parts.push(this.parseFactor());
+    }
+    if (parts.length === 1) {
+      return parts[0];
+    }
+    return {
+      soql: parts.map(part => part.soql).join(' AND '),
+      test: log => parts.every(part => part.test(log))
+    };
+  }
+
+  private parseFactor(): QueryCondition {
+    if (this.matchKeyword('NOT')) {
+      const operand = this.parseFactor();
+      return { soql: `(NOT ${operand.soql})`, test: log => !operand.test(log) };
+    }
+
+    const token = this.peek();
+    if (token?.type === 'paren' && token.value === '(') {
+      this.position++;
+      const inner = this.parseExpression();
+      const closing = this.next();
+      if (closing?.type !== 'paren' || closing.value !== ')') {
+        this.fail('missing closing parenthesis');
+      }
+      return { soql: `(${inner.soql})`, test: inner.test };
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): QueryCondition {
+    const field = this.next();
+    if (field?.type !== 'identifier') {
+      this.fail(`expected a field name${field ? ` but found "${field.value}"` : ''}`);
+    }
+
+    const operator = this.next();
+    if (!operator || (operator.type !== 'operator' && !(operator.type === 'keyword' && operator.value === 'LIKE'))) {
+      this.fail(`expected an operator after ${field.value}`);
+    }
+
+    const value = this.next();
+    if (!value || (value.type !== 'string' && value.type !== 'number')) {
+      this.fail(`expected a value after ${field.value} ${operator.value}`);
+    }
+
+    try {
+      return ApexLogQuery.compileComparison(field.value, String(operator.value), value.value);
+    } catch (error) {
+      this.fail(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+      const char = input[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === '(' || char === ')') {
+        tokens.push({ type: 'paren', value: char });
+        i++;
+      } else if (char === "'") {
+        let value = '';
+        i++;
+        while (i < input.length && input[i] !== "'") {
+          if (input[i] === '\\' && i + 1 < input.length) {
+            i++;
+          }
+          value += input[i];
+          i++;
+        }
+        if (i >= input.length) {
+          this.fail('unterminated string literal');
+        }
+        tokens.push({ type: 'string', value });
+        i++;
+      } else if (/[<>=!]/.test(char)) {
+        const twoChar = input.substr(i, 2);
+        if (['!=', '<>', '<=', '>='].includes(twoChar)) {
+          tokens.push({ type: 'operator', value: twoChar });
+          i += 2;
+        } else if (['=', '<', '>'].includes(char)) {
+          tokens.push({ type: 'operator', value: char });
+          i++;
+        } else {
+          this.fail(`unexpected "${char}"`);
+        }
+      } else if (/[-\d.]/.test(char)) {
+        const match = /^-?\d+(\.\d+)?/.exec(input.slice(i));
+        if (!match) {
+          this.fail(`invalid number at "${input.slice(i)}"`);
+        }
+        tokens.push({ type: 'number', value: Number(match[0]) });
+        i += match[0].length;
+      } else if (/[A-Za-z_]/.test(char)) {
+        const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(input.slice(i))![0];
+        const upper = word.toUpperCase();
+        if (upper === 'AND' || upper === 'OR' || upper === 'NOT' || upper === 'LIKE') {
+          tokens.push({ type: 'keyword', value: upper });
+        } else {
+          tokens.push({ type: 'identifier', value: word });
+        }
+        i += word.length;
+      } else {
+        this.fail(`unexpected "${char}"`);
+      }
+    }
+
+    return tokens;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private matchKeyword(keyword: 'AND' | 'OR' | 'NOT'): boolean {
+    const token = this.peek();
+    if (token?.type === 'keyword' && token.value === keyword) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private fail(message: string): never {
+    throw new InvalidQueryError(`Invalid --where expression "${this.expression}": ${message}`);
+  }
+}
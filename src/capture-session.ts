@@ -0,0 +1,155 @@
+import { SalesforceClient } from './salesforce-client';
+import { LogSearcher } from './log-search';
+import { TraceFlagManager } from './trace-flag-manager';
+import { ApexLogQuery } from './apex-log-query';
+import { CaptureOptions, CaptureSummary, DebugLevelSettings, DownloadOptions, DownloadResult, TraceFlag } from './types';
+
+/**
+ * A one-shot debugging session: enable tracing for a user, collect the logs
+ * written while it was on, then put the org back the way it was.
+ *
+ * `cleanup()` is idempotent and safe to call from a signal handler, so callers
+ * should invoke it in a `finally` block and on Ctrl+C.
+ */
+export class CaptureSession {
+  private client: SalesforceClient;
+  private manager: TraceFlagManager;
+  private options: CaptureOptions;
+  private summary: CaptureSummary;
+
+  private createdTraceFlagId?: string;
+  // Set while the trace flag is being created, so cleanup during start() can wait for it
+  private pendingTraceFlag?: Promise<TraceFlag>;
+  private originalTraceFlag?: TraceFlag;
+  private originalDebugLevel?: DebugLevelSettings;
+  private cleanupPromise?: Promise<void>;
+
+  constructor(client: SalesforceClient, options: CaptureOptions) {
+    this.client = client;
+    this.manager = new TraceFlagManager(client);
+    this.options = options;
+    this.summary = {
+      userId: options.userId,
+      debugLevel: options.debugLevel,
+      reusedTraceFlag: false,
+      startedAt: new Date().toISOString(),
+      capturedLogIds: [],
+      cleanup: [],
+      cleanupErrors: []
+    };
+  }
+
+  /**
+   * Prepare the debug level and switch tracing on for the user
+   */
+  async start(): Promise<CaptureSummary> {
+    const existingLevel = await this.manager.getDebugLevel(this.options.debugLevel);
+
+    if (!existingLevel) {
+      await this.manager.createDebugLevel(this.options.debugLevel, this.options.preset || 'default');
+    } else if (this.options.preset) {
+      // Remember the current levels before applying the preset so cleanup can put them back
+      this.originalDebugLevel = TraceFlagManager.settingsOf(existingLevel);
+      await this.manager.updateDebugLevel(this.options.debugLevel, this.options.preset);
+    }
+
+    // Salesforce allows one trace flag per user and log type, so reuse an existing one
+    const existingFlag = await this.manager.findTraceFlag(this.options.userId, true);
+    if (existingFlag) {
+      this.originalTraceFlag = existingFlag;
+      this.summary.traceFlagId = existingFlag.Id;
+      this.summary.reusedTraceFlag = true;
+      await this.manager.extendTraceFlag(existingFlag.Id, this.options.durationMinutes, this.options.debugLevel);
+    } else {
+      this.pendingTraceFlag = this.manager.createTraceFlag({
+        entityType: 'user',
+        entity: this.options.userId,
+        debugLevel: this.options.debugLevel,
+        durationMinutes: this.options.durationMinutes
+      });
+      const flag = await this.pendingTraceFlag;
+      this.createdTraceFlagId = flag.Id;
+      this.summary.traceFlagId = flag.Id;
+    }
+
+    // Logs are stamped by the server clock; start the window a little early to allow for skew
+    this.summary.startedAt = new Date(Date.now() - 5000).toISOString();
+    return this.summary;
+  }
+
+  /**
+   * Find every log the user wrote since the session started and download it
+   */
+  async collect(searcher: LogSearcher, downloadOptions: DownloadOptions): Promise<DownloadResult> {
+    this.summary.endedAt = new Date().toISOString();
+
+    const query = new ApexLogQuery()
+      .byUser(this.options.userId)
+      .modifiedFrom(this.summary.startedAt);
+    const { records } = await this.client.queryAllDebugLogs(query);
+
+    this.summary.capturedLogIds = records.map(log => log.Id);
+    const download = await searcher.downloadLogsByIds(this.summary.capturedLogIds, downloadOptions);
+    this.summary.download = download;
+
+    return download;
+  }
+
+  /**
+   * Remove or restore the trace flag and restore the debug level. Runs at most once.
+   */
+  cleanup(): Promise<void> {
+    if (!this.cleanupPromise) {
+      this.cleanupPromise = this.runCleanup();
+    }
+    return this.cleanupPromise;
+  }
+
+  /**
+   * Current state of the session, for writing a summary
+   */
+  getSummary(): CaptureSummary {
+    return this.summary;
+  }
+
+  private async runCleanup(): Promise<void> {
+    this.summary.endedAt = this.summary.endedAt || new Date().toISOString();
+
+    await this.attempt(async () => {
+      if (!this.createdTraceFlagId && this.pendingTraceFlag) {
+        // Interrupted while the flag was being created: wait for it, so it isn't left active
+        const flag = await this.pendingTraceFlag.catch(() => undefined);
+        this.createdTraceFlagId = flag?.Id;
+        this.summary.traceFlagId = flag?.Id;
+      }
+      if (this.createdTraceFlagId) {
+        await this.manager.removeTraceFlag(this.createdTraceFlagId);
+        return `Removed trace flag ${this.createdTraceFlagId}`;
+      }
+      if (this.originalTraceFlag) {
+        await this.manager.restoreTraceFlag(this.originalTraceFlag);
+        return `Restored trace flag ${this.originalTraceFlag.Id} to its previous debug level and expiration`;
+      }
+      return undefined;
+    });
+
+    await this.attempt(async () => {
+      if (this.originalDebugLevel) {
+        await this.manager.updateDebugLevel(this.options.debugLevel, undefined, this.originalDebugLevel);
+        return `Restored debug level ${this.options.debugLevel}`;
+      }
+      return undefined;
+    });
+  }
+
+  private async attempt(step: () => Promise<string | undefined>): Promise<void> {
+    try {
+      const done = await step();
+      if (done) {
+        this.summary.cleanup.push(done);
+      }
+    } catch (error) {
+      this.summary.cleanupErrors.push(`${error}`);
+    }
+  }
+}
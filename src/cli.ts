@@ -5,8 +5,56 @@ import chalk from 'chalk';
 import * as dotenv from 'dotenv';
 import moment from 'moment';
 import { SalesforceClient } from './salesforce-client';
-import { LogSearcher } from './log-search';
-import { SearchOptions, DownloadOptions } from './types';
+import { LogSearcher, DEFAULT_SEARCH_CONCURRENCY } from './log-search';
+import { ApexLogQuery } from './apex-log-query';
+import { LimitAnalyzer, GOVERNOR_LIMIT_NAMES } from './limit-analyzer';
+import { DEFAULT_REPEAT_THRESHOLD } from './soql-analyzer';
+import {
+  TraceFlagManager,
+  DEBUG_LEVEL_PRESETS,
+  DEBUG_LEVEL_CATEGORIES,
+  LOG_LEVELS,
+  MAX_TRACE_FLAG_MINUTES
+} from './trace-flag-manager';
+import { CaptureSession } from './capture-session';
+import { LogSync } from './log-sync';
+import { LogSource, LocalLogSource, OrgLogSource } from './log-source';
+import { OutputFormatter, OUTPUT_FORMATS } from './output-formatter';
+import { HtmlReport } from './html-report';
+import { LogBodyCache, DEFAULT_CACHE_DIR, DEFAULT_CACHE_MAX_BYTES } from './log-body-cache';
+import { UserCache } from './user-cache';
+import { SfCliAuthStore } from './sf-cli-auth';
+import { ProfileConfig, PROFILE_CONFIG_FILE } from './profile-config';
+import { DEFAULT_MAX_RETRIES, DEFAULT_MAX_API_USAGE_PERCENT } from './request-policy';
+import { FileUtils } from './file-utils';
+import {
+  SearchOptions,
+  SearchProgress,
+  DebugLog,
+  FormattedOutput,
+  LogCountSummary,
+  OutputFormat,
+  SearchResult,
+  DownloadOptions,
+  GovernorLimitName,
+  LogMatch,
+  MatchOptions,
+  MatchSpan,
+  DebugLevel,
+  DebugLevelSettings,
+  TracedEntityType,
+  OAuthConfig,
+  OrgProfile,
+  RequestPolicyOptions,
+  SfCliOrgAuth,
+  SalesforceUser,
+  Logger,
+  EventOptions
+} from './types';
+import {
+  SalesforceError, AuthExpiredError, PermissionDeniedError, NotFoundError, NetworkError, EXIT_CODES
+} from './errors';
+import * as fs from 'fs';
 import * as path from 'path';
 
 // Load environment variables
@@ -14,6 +62,11 @@ dotenv.config();
 
 const program = new Command();
 
+// Colour codes are noise once output is piped into a file or another program
+if (!process.stdout.isTTY || process.env.NO_COLOR) {
+  chalk.level = 0;
+}
+
 program
   .name('sf-debug-search')
   .description('Search Salesforce debug logs using session tokens')
@@ -21,57 +74,102 @@ program
 
 // Global options
 program
+  .option('--org <name>', `Use a named org profile from ${PROFILE_CONFIG_FILE}`, process.env.SF_DEBUG_ORG)
+  .option('--target-org <alias>', 'Use the credentials of a Salesforce CLI org alias or username', process.env.SF_TARGET_ORG)
   .option('-i, --instance-url <url>', 'Salesforce instance URL', process.env.SF_INSTANCE_URL)
   .option('-t, --session-token <token>', 'Salesforce session token', process.env.SF_SESSION_TOKEN)
-  .option('-v, --api-version <version>', 'Salesforce API version', process.env.SF_API_VERSION || '58.0');
+  .option('-v, --api-version <version>', 'Salesforce API version', process.env.SF_API_VERSION || '58.0')
+  .option('--client-id <id>', 'OAuth connected app consumer key', process.env.SF_CLIENT_ID)
+  .option('--client-secret <secret>', 'OAuth connected app consumer secret (refresh token flow)', process.env.SF_CLIENT_SECRET)
+  .option('--refresh-token <token>', 'OAuth refresh token', process.env.SF_REFRESH_TOKEN)
+  .option('--username <username>', 'Salesforce username for the JWT bearer flow', process.env.SF_USERNAME)
+  .option('--private-key <file>', 'Private key file (PEM) for the JWT bearer flow', process.env.SF_PRIVATE_KEY_FILE)
+  .option('--login-url <url>', 'OAuth login URL, e.g. https://test.salesforce.com for sandboxes', process.env.SF_LOGIN_URL)
+  .option('--max-retries <number>', 'Retries for rate-limited, unavailable or dropped requests', String(DEFAULT_MAX_RETRIES))
+  .option('--max-api-usage <percent>', "Stop before this share of the org's daily API allowance is used", process.env.SF_MAX_API_USAGE || String(DEFAULT_MAX_API_USAGE_PERCENT))
+  .option('--cache-dir <dir>', 'Directory for cached log bodies', process.env.SF_DEBUG_CACHE_DIR || DEFAULT_CACHE_DIR)
+  .option('--cache-max-size <mb>', 'Maximum size of the log body cache in MB', String(DEFAULT_CACHE_MAX_BYTES / (1024 * 1024)))
+  .option('--no-cache', 'Always download log bodies, bypassing the local cache')
+  .option('--no-user-names', 'Show user IDs without looking up user names');
+
+// Status messages go to stdout, or to stderr when stdout carries --format output
+let statusStream: NodeJS.WritableStream = process.stdout;
+
+// The library prints nothing by itself; the CLI shows its status messages and warnings
+const cliLogger: Logger = {
+  info: message => printStatus(message),
+  warn: message => console.warn(message)
+};
+
+// Org profile selected with --org (or the config file's defaultOrg), applied before every command
+let activeProfile: OrgProfile | undefined;
+
+program.hook('preAction', (_, actionCommand) => {
+  try {
+    activeProfile = applyOrgProfile(actionCommand);
+  } catch (error) {
+    exitWithError(error);
+  }
+});
 
 // Search command
 program
   .command('search <searchText>')
   .description('Search for text in debug logs')
+  .option('--from-dir <dir>', 'Read downloaded logs from a local directory instead of the org')
+  .option('--orgs <names>', 'Comma-separated org profiles or Salesforce CLI aliases to search in parallel')
   .option('-c, --case-sensitive', 'Case sensitive search', false)
+  .option('-r, --regex', 'Treat the search text as a regular expression')
+  .option('--word', 'Only match whole words')
+  .option('-x, --exclude <pattern>', 'Skip lines matching this pattern (repeatable)', collectValues, [])
+  .option('-b, --boolean', 'Treat the search text as a boolean query, e.g. \'"AccountTrigger" AND NOT "DmlException"\'')
+  .option('--match-scope <scope>', 'Evaluate boolean queries and exclusions per line or per whole log (line, log)', 'line')
   .option('-m, --max-results <number>', 'Maximum number of logs to search', '100')
   .option('-u, --user-id <userId>', 'Filter logs by user ID')
+  .option('--user <users>', 'Filter logs by username, email or name, comma-separated for several users')
   .option('--date-from <date>', 'Filter logs from date (YYYY-MM-DD or ISO format)')
   .option('--date-to <date>', 'Filter logs to date (YYYY-MM-DD or ISO format)')
+  .option('-w, --where <expression>', `Filter logs by field expression, e.g. "Status != 'Success' AND DurationMilliseconds > 5000"`)
   .option('--context <lines>', 'Number of context lines to show', '2')
   .option('-d, --download [dir]', 'Download matching logs to specified directory (default: ./logs)')
   .option('--no-metadata', 'Skip saving metadata files when downloading')
   .option('--no-summary', 'Skip creating download summary when downloading')
+  .option('--report [file]', 'Write a self-contained HTML report (default: report.html, in the download directory when downloading)')
   .option('--verbose', 'Show detailed download progress')
   .option('--all', 'Search through ALL logs using batching (may take time for large datasets)')
   .option('--search-max <number>', 'Maximum number of logs to search through when using --all (default: unlimited)', '0')
+  .option('--concurrency <number>', 'Number of log bodies to fetch in parallel', String(DEFAULT_SEARCH_CONCURRENCY))
+  .option('--first <number>', 'Stop after this many matching logs')
+  .option('-f, --format <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'text')
   .action(async (searchText, options) => {
     try {
-      const client = createClient(program.opts());
-      const searcher = new LogSearcher(client);
+      const format = initOutputFormat(options);
+      const source = createSearchSource(options);
 
-      console.log(chalk.blue('🔍 Searching Salesforce debug logs...'));
-      console.log(chalk.gray(`Search term: "${searchText}"`));
+      printStatus(chalk.blue('🔍 Searching Salesforce debug logs...'));
+      printStatus(chalk.gray(`Search term: "${searchText}"`));
+
+      const searcher = new LogSearcher(await connectToSearchSource(source, options), libraryOptions(options.verbose));
 
       const searchOptions: SearchOptions = {
         searchText,
-        caseSensitive: options.caseSensitive,
+        ...collectMatchOptions(options),
         maxResults: options.all 
           ? (parseInt(options.searchMax) || undefined) // undefined means unlimited
           : parseInt(options.maxResults),
         userId: options.userId,
+        userIds: options.userIds,
+        excludeUserIds: options.excludeUserIds,
         dateFrom: formatDate(options.dateFrom),
-        dateTo: formatDate(options.dateTo)
+        dateTo: formatDate(options.dateTo),
+        where: options.where,
+        concurrency: parseInt(options.concurrency),
+        maxMatchingLogs: options.first !== undefined ? parseInt(options.first) : undefined
       };
 
       if (options.all) {
-        console.log(chalk.yellow('🔄 Searching through ALL logs (this may take a while for large datasets)...'));
-      }
-
-      // Test connection first
-      console.log(chalk.gray('Testing connection...'));
-      const isConnected = await client.testConnection();
-      if (!isConnected) {
-        console.error(chalk.red('❌ Failed to connect to Salesforce. Please check your credentials.'));
-        process.exit(1);
+        printStatus(chalk.yellow('🔄 Searching through ALL logs (this may take a while for large datasets)...'));
       }
-      console.log(chalk.green('✅ Connected to Salesforce'));
 
       // Start timing
       const startTime = Date.now();
@@ -80,97 +178,145 @@ program
       if (options.download !== undefined) {
         const downloadDir = typeof options.download === 'string' 
           ? path.resolve(options.download)
-          : path.resolve('./logs');
+          : path.resolve(activeProfile?.outputDir || './logs');
 
         const downloadOptions: DownloadOptions = {
           outputDir: downloadDir,
           includeMetadata: !options.noMetadata,
           createSummary: !options.noSummary,
-          verbose: options.verbose
+          reportPath: options.report !== undefined ? resolveReportPath(options.report, downloadDir) : undefined
         };
 
-        console.log(chalk.blue(`📥 Download mode enabled. Output directory: ${downloadDir}`));
+        printStatus(chalk.blue(`📥 Download mode enabled. Output directory: ${downloadDir}`));
 
-        const downloadResult = await searcher.searchAndDownloadLogs(searchOptions, downloadOptions, options.all);
+        const progressLine = new ProgressLine();
+        const downloadResult = await searcher.searchAndDownloadLogs(searchOptions, downloadOptions, options.all, {
+          onProgress: progress => progressLine.update(progress)
+        }).finally(() => progressLine.clear());
+
+        if (downloadResult.matchingLogs === 0) {
+          process.exitCode = EXIT_CODES.NO_MATCHES;
+        }
+
+        if (format !== 'text') {
+          printOutput(format, OutputFormatter.downloadResult(downloadResult));
+          return;
+        }
 
         // Display download summary
-        console.log(chalk.green('\n📊 Download Summary:'));
-        console.log(chalk.white(`   Search term: "${downloadResult.searchText}"`));
-        console.log(chalk.white(`   Total logs searched: ${downloadResult.totalLogsSearched}`));
-        console.log(chalk.white(`   Logs with matches: ${downloadResult.matchingLogs}`));
-        console.log(chalk.green(`   ✅ Successfully downloaded: ${downloadResult.downloadedLogs}`));
+        printStatus(chalk.green('\n📊 Download Summary:'));
+        printStatus(chalk.white(`   Search term: "${downloadResult.searchText}"`));
+        printStatus(chalk.white(`   Total logs searched: ${downloadResult.totalLogsSearched}`));
+        printStatus(chalk.white(`   Logs with matches: ${downloadResult.matchingLogs}`));
+        printStatus(chalk.green(`   ✅ Successfully downloaded: ${downloadResult.downloadedLogs}`));
         
         if (downloadResult.failedDownloads.length > 0) {
-          console.log(chalk.red(`   ❌ Failed downloads: ${downloadResult.failedDownloads.length}`));
+          printStatus(chalk.red(`   ❌ Failed downloads: ${downloadResult.failedDownloads.length}`));
           if (options.verbose) {
             downloadResult.failedDownloads.forEach(logId => {
-              console.log(chalk.red(`      - ${logId}`));
+              printStatus(chalk.red(`      - ${logId}`));
             });
           }
         }
         
-        console.log(chalk.white(`   📁 Download location: ${downloadResult.downloadPath}`));
-        console.log(chalk.white(`   💾 Total size: ${require('./file-utils').FileUtils.formatBytes(downloadResult.estimatedSize)}`));
+        printStatus(chalk.white(`   📁 Download location: ${downloadResult.downloadPath}`));
+        printStatus(chalk.white(`   💾 Total size: ${FileUtils.formatBytes(downloadResult.estimatedSize)}`));
+        if (downloadOptions.reportPath && downloadResult.matchingLogs > 0) {
+          printStatus(chalk.white(`   📄 Report: ${downloadOptions.reportPath}`));
+        }
         
         // Show timing
         const endTime = Date.now();
         const duration = ((endTime - startTime) / 1000).toFixed(2);
-        console.log(chalk.white(`   ⏱️  Total time: ${duration} seconds`));
+        printStatus(chalk.white(`   ⏱️  Total time: ${duration} seconds`));
 
         return;
       }
 
-      // Regular search mode (no download)
-      const { results, totalLogsSearched } = options.all 
-        ? await searcher.searchAllLogsWithStats(searchOptions)
-        : await searcher.searchLogsWithStats(searchOptions);
+      // Regular search mode (no download): print each log as soon as it has been searched
+      const progressLine = new ProgressLine();
+      let printed = 0;
+      const onResult = (result: SearchResult) => {
+        progressLine.clear();
+        if (format === 'ndjson') {
+          // NDJSON is streamed, one matching log per line as soon as it is found
+          process.stdout.write(`${JSON.stringify(OutputFormatter.searchResult(result))}\n`);
+          return;
+        }
+        if (format !== 'text') {
+          return;
+        }
+        if (printed === 0) {
+          printStatus(chalk.green(`\n🎯 Detailed Results:\n`));
+        }
+        printed++;
+
+        printStatus(chalk.cyan(`\n📋 Log ${printed}: ${result.log.Id}`));
+        if (result.org) {
+          printStatus(chalk.gray(`   Org: ${result.org}`));
+        }
+        printStatus(chalk.gray(`   User: ${formatUser(result.log)}`));
+        printStatus(chalk.gray(`   Date: ${moment(result.log.LastModifiedDate).format('YYYY-MM-DD HH:mm:ss')}`));
+        printStatus(chalk.gray(`   Operation: ${result.log.Operation}`));
+        printStatus(chalk.gray(`   Status: ${result.log.Status}`));
+        printStatus(chalk.gray(`   Duration: ${result.log.DurationMilliseconds}ms`));
+        printStatus(chalk.gray(`   Length: ${result.log.LogLength} bytes`));
 
-      // Calculate timing
-      const endTime = Date.now();
-      const duration = ((endTime - startTime) / 1000).toFixed(2);
+        printStatus(chalk.yellow(`\n   📍 ${result.matches.length} matches found:`));
 
-      // Always show search summary
-      console.log(chalk.blue(`\n📊 Search Summary:`));
-      console.log(chalk.white(`   Search term: "${searchOptions.searchText}"`));
-      console.log(chalk.white(`   Total logs searched: ${totalLogsSearched}`));
-      console.log(chalk.white(`   Logs with matches: ${results.length}`));
-      console.log(chalk.white(`   ⏱️  Search time: ${duration} seconds`));
+        printMatches(result.matches);
+        printStatus(chalk.gray('   ' + '─'.repeat(80)));
+      };
+      const callbacks = { onResult, onProgress: (progress: SearchProgress) => progressLine.update(progress) };
+
+      const { results, totalLogsSearched } = await (options.all 
+        ? searcher.searchAllLogsWithStats(searchOptions, callbacks)
+        : searcher.searchLogsWithStats(searchOptions, callbacks)
+      ).finally(() => progressLine.clear());
 
       if (results.length === 0) {
-        console.log(chalk.yellow('\n❌ No matches found.'));
-        return;
+        process.exitCode = EXIT_CODES.NO_MATCHES;
       }
 
-      console.log(chalk.green(`\n🎯 Detailed Results:\n`));
+      if (options.report !== undefined) {
+        const reportPath = resolveReportPath(options.report, process.cwd());
+        await HtmlReport.save(reportPath, {
+          title: 'Debug Log Search Report',
+          searchText,
+          generatedAt: new Date().toISOString(),
+          totalLogsSearched,
+          results
+        });
+        printStatus(chalk.green(`📄 HTML report written to ${reportPath}`));
+      }
 
-      results.forEach((result, index) => {
-        console.log(chalk.cyan(`\n📋 Log ${index + 1}: ${result.log.Id}`));
-        console.log(chalk.gray(`   User: ${result.log.LogUserId}`));
-        console.log(chalk.gray(`   Date: ${moment(result.log.LastModifiedDate).format('YYYY-MM-DD HH:mm:ss')}`));
-        console.log(chalk.gray(`   Operation: ${result.log.Operation}`));
-        console.log(chalk.gray(`   Status: ${result.log.Status}`));
-        console.log(chalk.gray(`   Duration: ${result.log.DurationMilliseconds}ms`));
-        console.log(chalk.gray(`   Length: ${result.log.LogLength} bytes`));
+      if (format !== 'text') {
+        if (format !== 'ndjson') {
+          printOutput(format, OutputFormatter.searchResults(searchText, results, totalLogsSearched));
+        }
+        return;
+      }
 
-        console.log(chalk.yellow(`\n   📍 ${result.matches.length} matches found:`));
+      // Calculate timing
+      const endTime = Date.now();
+      const duration = ((endTime - startTime) / 1000).toFixed(2);
 
-        result.matches.forEach((match, matchIndex) => {
-          console.log(chalk.white(`\n   Match ${matchIndex + 1} (line ${match.lineNumber}):`));
-          console.log(chalk.green(`   → ${match.line}`));
-          
-          if (match.context && match.context.length > 0) {
-            console.log(chalk.gray('   Context:'));
-            match.context.forEach(contextLine => {
-              console.log(chalk.gray(`     ${contextLine}`));
-            });
-          }
-        });
-        console.log(chalk.gray('   ' + '─'.repeat(80)));
-      });
+      // Always show search summary
+      printStatus(chalk.blue(`\n📊 Search Summary:`));
+      printStatus(chalk.white(`   Search term: "${searchOptions.searchText}"`));
+      printStatus(chalk.white(`   Total logs searched: ${totalLogsSearched}`));
+      printStatus(chalk.white(`   Logs with matches: ${results.length}`));
+      if (searchOptions.maxMatchingLogs !== undefined && results.length >= searchOptions.maxMatchingLogs) {
+        printStatus(chalk.yellow(`   ⏹️  Stopped after the first ${searchOptions.maxMatchingLogs} matching logs`));
+      }
+      printStatus(chalk.white(`   ⏱️  Search time: ${duration} seconds`));
+
+      if (results.length === 0) {
+        printStatus(chalk.yellow('\n❌ No matches found.'));
+      }
 
     } catch (error) {
-      console.error(chalk.red(`❌ Error: ${error}`));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -178,55 +324,729 @@ program
 program
   .command('multi-search <patterns...>')
   .description('Search for multiple patterns in debug logs')
+  .option('--from-dir <dir>', 'Read downloaded logs from a local directory instead of the org')
   .option('-c, --case-sensitive', 'Case sensitive search', false)
+  .option('-r, --regex', 'Treat each pattern as a regular expression')
+  .option('--word', 'Only match whole words')
+  .option('-x, --exclude <pattern>', 'Skip lines matching this pattern (repeatable)', collectValues, [])
   .option('-m, --max-results <number>', 'Maximum number of logs to search', '100')
   .option('-u, --user-id <userId>', 'Filter logs by user ID')
+  .option('--user <users>', 'Filter logs by username, email or name, comma-separated for several users')
   .option('--date-from <date>', 'Filter logs from date (YYYY-MM-DD or ISO format)')
   .option('--date-to <date>', 'Filter logs to date (YYYY-MM-DD or ISO format)')
+  .option('-f, --format <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'text')
   .action(async (patterns, options) => {
     try {
-      const client = createClient(program.opts());
-      const searcher = new LogSearcher(client);
+      const format = initOutputFormat(options);
+      const source = createLogSource(options);
+      const searcher = new LogSearcher(source, libraryOptions());
+
+      printStatus(chalk.blue('🔍 Searching Salesforce debug logs for multiple patterns...'));
+      printStatus(chalk.gray(`Patterns: ${patterns.join(', ')}`));
 
-      console.log(chalk.blue('🔍 Searching Salesforce debug logs for multiple patterns...'));
-      console.log(chalk.gray(`Patterns: ${patterns.join(', ')}`));
+      await connectToSource(source, options);
 
       const searchOptions = {
-        caseSensitive: options.caseSensitive,
+        ...collectMatchOptions(options),
         maxResults: parseInt(options.maxResults),
         userId: options.userId,
+        userIds: options.userIds,
+        excludeUserIds: options.excludeUserIds,
         dateFrom: formatDate(options.dateFrom),
         dateTo: formatDate(options.dateTo)
       };
 
-      // Test connection first
-      console.log(chalk.gray('Testing connection...'));
-      const isConnected = await client.testConnection();
-      if (!isConnected) {
-        console.error(chalk.red('❌ Failed to connect to Salesforce. Please check your credentials.'));
-        process.exit(1);
+      const results = await searcher.searchMultiplePatterns(patterns, searchOptions);
+      if ([...results.values()].every(patternResults => patternResults.length === 0)) {
+        process.exitCode = EXIT_CODES.NO_MATCHES;
       }
-      console.log(chalk.green('✅ Connected to Salesforce'));
 
-      const results = await searcher.searchMultiplePatterns(patterns, searchOptions);
+      if (format !== 'text') {
+        printOutput(format, OutputFormatter.multiSearchResults(results));
+        return;
+      }
 
       let totalMatches = 0;
       results.forEach((patternResults, pattern) => {
         totalMatches += patternResults.length;
-        console.log(chalk.cyan(`\n🎯 Pattern "${pattern}": ${patternResults.length} logs with matches`));
+        printStatus(chalk.cyan(`\n🎯 Pattern "${pattern}": ${patternResults.length} logs with matches`));
         
         patternResults.forEach((result, index) => {
-          console.log(chalk.white(`  📋 Log ${index + 1}: ${result.log.Id} (${result.matches.length} matches)`));
+          printStatus(chalk.white(`  📋 Log ${index + 1}: ${result.log.Id} (${result.matches.length} matches)`));
         });
       });
 
       if (totalMatches === 0) {
-        console.log(chalk.yellow('No matches found for any pattern.'));
+        printStatus(chalk.yellow('No matches found for any pattern.'));
       }
 
     } catch (error) {
-      console.error(chalk.red(`❌ Error: ${error}`));
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+// Governor limits command
+program
+  .command('limits')
+  .description('Rank debug logs by governor limit usage')
+  .option('--from-dir <dir>', 'Read downloaded logs from a local directory instead of the org')
+  .option('-m, --max-results <number>', 'Maximum number of logs to analyze', '100')
+  .option('-u, --user-id <userId>', 'Filter logs by user ID')
+  .option('--user <users>', 'Filter logs by username, email or name, comma-separated for several users')
+  .option('--date-from <date>', 'Filter logs from date (YYYY-MM-DD or ISO format)')
+  .option('--date-to <date>', 'Filter logs to date (YYYY-MM-DD or ISO format)')
+  .option('-w, --where <expression>', 'Filter logs by field expression (see search --help)')
+  .option('--sort <limit>', `Limit to rank by: peak, ${GOVERNOR_LIMIT_NAMES.join(', ')}`, 'peak')
+  .option('--top <number>', 'Number of logs to show', '20')
+  .option('--all', 'Analyze ALL logs using batching (may take time for large datasets)')
+  .option('--search-max <number>', 'Maximum number of logs to analyze when using --all (default: unlimited)', '0')
+  .action(async (options) => {
+    try {
+      const source = createLogSource(options);
+      const searcher = new LogSearcher(source, libraryOptions());
+
+      const sortLimit = options.sort === 'peak' ? undefined : options.sort as GovernorLimitName;
+      if (sortLimit && !GOVERNOR_LIMIT_NAMES.includes(sortLimit)) {
+        throw new Error(`Unknown limit "${options.sort}". Use peak or one of: ${GOVERNOR_LIMIT_NAMES.join(', ')}`);
+      }
+
+      printStatus(chalk.blue('📈 Analyzing governor limit usage...'));
+
+      await connectToSource(source, options);
+
+      const { reports, totalLogsSearched } = await searcher.analyzeLimits({
+        maxResults: options.all
+          ? (parseInt(options.searchMax) || undefined) // undefined means unlimited
+          : parseInt(options.maxResults),
+        userId: options.userId,
+        userIds: options.userIds,
+        excludeUserIds: options.excludeUserIds,
+        dateFrom: formatDate(options.dateFrom),
+        dateTo: formatDate(options.dateTo),
+        where: options.where
+      }, options.all);
+
+      printStatus(chalk.blue(`\n📊 Limits Summary:`));
+      printStatus(chalk.white(`   Total logs analyzed: ${totalLogsSearched}`));
+      printStatus(chalk.white(`   Logs with limit usage data: ${reports.length}`));
+
+      if (reports.length === 0) {
+        printStatus(chalk.yellow('\n❌ No limit usage found. Make sure the debug level logs APEX_PROFILING at INFO or above.'));
+        return;
+      }
+
+      const ranked = LimitAnalyzer.rank(reports, sortLimit).slice(0, parseInt(options.top));
+      printStatus(chalk.green(`\n🏆 Top ${ranked.length} logs by ${sortLimit || 'peak'} usage:\n`));
+
+      ranked.forEach((report, index) => {
+        printStatus(chalk.cyan(`📋 ${index + 1}. ${report.log.Id}`));
+        printStatus(chalk.gray(`   User: ${formatUser(report.log)}`));
+        printStatus(chalk.gray(`   Date: ${moment(report.log.LastModifiedDate).format('YYYY-MM-DD HH:mm:ss')}`));
+        printStatus(chalk.gray(`   Operation: ${report.log.Operation}`));
+
+        report.namespaces.forEach(ns => {
+          printStatus(chalk.white(`   Namespace ${ns.namespace}:`));
+          GOVERNOR_LIMIT_NAMES.forEach(limit => {
+            const usage = ns.limits[limit];
+            if (usage) {
+              const color = usage.percent >= 80 ? chalk.red : usage.percent >= 50 ? chalk.yellow : chalk.white;
+              printStatus(color(`     ${limit.padEnd(14)} ${String(usage.used).padStart(9)} / ${String(usage.max).padEnd(9)} ${usage.percent.toFixed(1).padStart(5)}%`));
+            }
+          });
+        });
+        printStatus('');
+      });
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// Errors command
+program
+  .command('errors')
+  .description('Report exceptions and fatal errors grouped by signature')
+  .option('--from-dir <dir>', 'Read downloaded logs from a local directory instead of the org')
+  .option('--orgs <names>', 'Comma-separated org profiles or Salesforce CLI aliases to search in parallel')
+  .option('-m, --max-results <number>', 'Maximum number of logs to scan', '100')
+  .option('-u, --user-id <userId>', 'Filter logs by user ID')
+  .option('--user <users>', 'Filter logs by username, email or name, comma-separated for several users')
+  .option('--date-from <date>', 'Filter logs from date (YYYY-MM-DD or ISO format)')
+  .option('--date-to <date>', 'Filter logs to date (YYYY-MM-DD or ISO format)')
+  .option('-w, --where <expression>', 'Filter logs by field expression (see search --help)')
+  .option('--top <number>', 'Number of error groups to show', '20')
+  .option('--all', 'Scan ALL logs using batching (may take time for large datasets)')
+  .option('--search-max <number>', 'Maximum number of logs to scan when using --all (default: unlimited)', '0')
+  .action(async (options) => {
+    try {
+      const source = createSearchSource(options);
+
+      printStatus(chalk.blue('🐞 Scanning debug logs for exceptions and fatal errors...'));
+
+      const searcher = new LogSearcher(await connectToSearchSource(source, options), libraryOptions(options.verbose));
+
+      const { groups, totalLogsSearched, logsWithErrors } = await searcher.analyzeErrors({
+        maxResults: options.all
+          ? (parseInt(options.searchMax) || undefined) // undefined means unlimited
+          : parseInt(options.maxResults),
+        userId: options.userId,
+        userIds: options.userIds,
+        excludeUserIds: options.excludeUserIds,
+        dateFrom: formatDate(options.dateFrom),
+        dateTo: formatDate(options.dateTo),
+        where: options.where
+      }, options.all);
+
+      printStatus(chalk.blue(`\n📊 Error Summary:`));
+      printStatus(chalk.white(`   Total logs scanned: ${totalLogsSearched}`));
+      printStatus(chalk.white(`   Logs with errors: ${logsWithErrors}`));
+      printStatus(chalk.white(`   Distinct error signatures: ${groups.length}`));
+
+      if (groups.length === 0) {
+        printStatus(chalk.green('\n✅ No exceptions or fatal errors found.'));
+        return;
+      }
+
+      printStatus(chalk.green(`\n🎯 Error Groups:\n`));
+
+      groups.slice(0, parseInt(options.top)).forEach((group, index) => {
+        printStatus(chalk.red(`❗ ${index + 1}. ${group.signature}`));
+        printStatus(chalk.white(`   Occurrences: ${group.count} in ${group.logCount} log(s)`));
+        if (group.sampleMessage) {
+          printStatus(chalk.gray(`   Message: ${group.sampleMessage}`));
+        }
+        printStatus(chalk.gray(`   First seen: ${moment(group.firstSeen).format('YYYY-MM-DD HH:mm:ss')}`));
+        printStatus(chalk.gray(`   Last seen: ${moment(group.lastSeen).format('YYYY-MM-DD HH:mm:ss')}`));
+        printStatus(chalk.gray(`   Users: ${group.users.join(', ')}`));
+        if (group.orgs) {
+          printStatus(chalk.gray(`   Orgs: ${group.orgs.join(', ')}`));
+        }
+        printStatus(chalk.gray(`   Sample logs: ${group.sampleLogIds.join(', ')}`));
+        printStatus('');
+      });
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// SOQL profiler command
+program
+  .command('soql')
+  .description('Profile SOQL queries per log and flag repeated (N+1) queries')
+  .option('--from-dir <dir>', 'Read downloaded logs from a local directory instead of the org')
+  .option('-m, --max-results <number>', 'Maximum number of logs to profile', '100')
+  .option('-u, --user-id <userId>', 'Filter logs by user ID')
+  .option('--user <users>', 'Filter logs by username, email or name, comma-separated for several users')
+  .option('--date-from <date>', 'Filter logs from date (YYYY-MM-DD or ISO format)')
+  .option('--date-to <date>', 'Filter logs to date (YYYY-MM-DD or ISO format)')
+  .option('-w, --where <expression>', 'Filter logs by field expression (see search --help)')
+  .option('--repeat-threshold <number>', 'Flag a query that runs this many times in one transaction', String(DEFAULT_REPEAT_THRESHOLD))
+  .option('--repeated-only', 'Only show logs with repeated queries')
+  .option('--all', 'Profile ALL logs using batching (may take time for large datasets)')
+  .option('--search-max <number>', 'Maximum number of logs to profile when using --all (default: unlimited)', '0')
+  .action(async (options) => {
+    try {
+      const source = createLogSource(options);
+      const searcher = new LogSearcher(source, libraryOptions());
+
+      printStatus(chalk.blue('🧮 Profiling SOQL queries in debug logs...'));
+
+      await connectToSource(source, options);
+
+      const { profiles, totalLogsSearched } = await searcher.profileSoql({
+        maxResults: options.all
+          ? (parseInt(options.searchMax) || undefined) // undefined means unlimited
+          : parseInt(options.maxResults),
+        userId: options.userId,
+        userIds: options.userIds,
+        excludeUserIds: options.excludeUserIds,
+        dateFrom: formatDate(options.dateFrom),
+        dateTo: formatDate(options.dateTo),
+        where: options.where
+      }, options.all, parseInt(options.repeatThreshold));
+
+      const flagged = profiles.filter(profile => profile.repeated.length > 0);
+      const shown = options.repeatedOnly ? flagged : profiles;
+
+      printStatus(chalk.blue(`\n📊 SOQL Summary:`));
+      printStatus(chalk.white(`   Total logs profiled: ${totalLogsSearched}`));
+      printStatus(chalk.white(`   Logs with SOQL: ${profiles.length}`));
+      printStatus(chalk.white(`   Logs with repeated queries: ${flagged.length}`));
+
+      if (shown.length === 0) {
+        printStatus(chalk.yellow(options.repeatedOnly ? '\n✅ No repeated queries found.' : '\n❌ No SOQL queries found. Make sure the debug level logs DB at INFO or above.'));
+        return;
+      }
+
+      shown.forEach((profile, index) => {
+        printStatus(chalk.cyan(`\n📋 Log ${index + 1}: ${profile.log.Id}`));
+        printStatus(chalk.gray(`   User: ${formatUser(profile.log)}`));
+        printStatus(chalk.gray(`   Date: ${moment(profile.log.LastModifiedDate).format('YYYY-MM-DD HH:mm:ss')}`));
+        printStatus(chalk.gray(`   Operation: ${profile.log.Operation}`));
+        printStatus(chalk.white(`   ${profile.queries.length} queries, ${profile.totalRows} rows, ${profile.totalDurationMs.toFixed(1)}ms`));
+
+        profile.repeated.forEach(repeat => {
+          printStatus(chalk.red(`\n   🔁 Repeated ${repeat.count}x (${repeat.totalRows} rows, ${repeat.totalDurationMs.toFixed(1)}ms): ${repeat.normalizedQuery}`));
+          if (repeat.callers.length > 0) {
+            printStatus(chalk.red(`      Called from: ${repeat.callers.join(', ')} (line ${repeat.sourceLines.join(', ')})`));
+          }
+        });
+
+        if (!options.repeatedOnly) {
+          printStatus(chalk.yellow('\n   Queries:'));
+          profile.queries.forEach(query => {
+            const location = query.caller ? `${query.caller}:${query.sourceLine ?? '?'}` : `line ${query.sourceLine ?? '?'}`;
+            const rows = query.rows !== undefined ? `${query.rows} rows` : '? rows';
+            const duration = query.durationMs !== undefined ? `${query.durationMs.toFixed(1)}ms` : '?ms';
+            printStatus(chalk.white(`   [${location}] ${rows}, ${duration}`));
+            printStatus(chalk.gray(`     ${query.query}`));
+          });
+        }
+        printStatus(chalk.gray('   ' + '─'.repeat(80)));
+      });
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// Tail command
+program
+  .command('tail [searchText]')
+  .description('Stream new debug logs as they arrive (Ctrl+C to stop)')
+  .option('-c, --case-sensitive', 'Case sensitive search', false)
+  .option('-r, --regex', 'Treat the search text as a regular expression')
+  .option('--word', 'Only match whole words')
+  .option('-x, --exclude <pattern>', 'Skip lines matching this pattern (repeatable)', collectValues, [])
+  .option('-b, --boolean', 'Treat the search text as a boolean query (see search --help)')
+  .option('--match-scope <scope>', 'Evaluate boolean queries and exclusions per line or per whole log (line, log)', 'line')
+  .option('-u, --user-id <userId>', 'Only stream logs for this user ID')
+  .option('--user <users>', 'Only stream logs for these users: usernames, emails or names, comma-separated')
+  .option('--operation <operation>', 'Only stream logs with this operation')
+  .option('--status <status>', 'Only stream logs with this status')
+  .option('-w, --where <expression>', 'Filter logs by field expression (see search --help)')
+  .option('--interval <seconds>', 'Polling interval in seconds', '5')
+  .action(async (searchText, options) => {
+    try {
+      const client = createClient(program.opts());
+      const searcher = new LogSearcher(client, libraryOptions());
+
+      printStatus(chalk.blue('📡 Tailing Salesforce debug logs...'));
+      if (searchText) {
+        printStatus(chalk.gray(`Search term: "${searchText}"`));
+      }
+
+      await connectToSource(client, options);
+      printStatus(chalk.gray('Waiting for new logs... (Ctrl+C to stop)'));
+
+      const controller = new AbortController();
+      process.once('SIGINT', () => controller.abort());
+
+      let received = 0;
+      await searcher.tailLogs({
+        searchText,
+        ...collectMatchOptions(options),
+        userId: options.userId,
+        userIds: options.userIds,
+        excludeUserIds: options.excludeUserIds,
+        operation: options.operation,
+        status: options.status,
+        where: options.where,
+        pollIntervalMs: parseFloat(options.interval) * 1000
+      }, ({ log, body, matches }) => {
+        received++;
+        printStatus(chalk.cyan(`\n📋 ${moment(log.LastModifiedDate).format('YYYY-MM-DD HH:mm:ss')} ${log.Id}`));
+        printStatus(chalk.gray(`   User: ${formatUser(log)} | Operation: ${log.Operation} | Status: ${log.Status} | ${log.DurationMilliseconds}ms | ${log.LogLength} bytes`));
+
+        if (searchText) {
+          printMatches(matches);
+        } else {
+          printStatus(body);
+        }
+        printStatus(chalk.gray('   ' + '─'.repeat(80)));
+      }, controller.signal);
+
+      printStatus(chalk.blue(`\n👋 Stopped tailing. ${received} log(s) received.`));
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// Trace flag commands
+const trace = program
+  .command('trace')
+  .description('Manage TraceFlag records (turn debug logging on and off)');
+
+trace
+  .command('list')
+  .description('List active trace flags')
+  .option('--expired', 'Include expired trace flags')
+  .action(async (options) => {
+    try {
+      const manager = new TraceFlagManager(createClient(program.opts()));
+
+      printStatus(chalk.blue('🚩 Listing trace flags...'));
+      const flags = await manager.listTraceFlags(options.expired);
+
+      if (flags.length === 0) {
+        printStatus(chalk.yellow('No trace flags found.'));
+        return;
+      }
+
+      printStatus(chalk.green(`\nFound ${flags.length} trace flag(s):\n`));
+      flags.forEach(flag => {
+        const expired = new Date(flag.ExpirationDate) <= new Date();
+        printStatus(chalk.cyan(`🚩 ${flag.Id}${expired ? chalk.red(' (expired)') : ''}`));
+        printStatus(chalk.gray(`   Traced entity: ${flag.TracedEntityId} (${flag.LogType})`));
+        printStatus(chalk.gray(`   Debug level: ${flag.DebugLevel?.DeveloperName || flag.DebugLevelId}`));
+        printStatus(chalk.gray(`   Expires: ${moment(flag.ExpirationDate).format('YYYY-MM-DD HH:mm:ss')} (${moment(flag.ExpirationDate).fromNow()})`));
+        printStatus('');
+      });
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+trace
+  .command('create')
+  .description('Create a trace flag for a user, Apex class or trigger')
+  .option('-u, --user-id <userId>', 'Trace a user')
+  .option('--class <name>', 'Trace an Apex class (name or ID)')
+  .option('--trigger <name>', 'Trace an Apex trigger (name or ID)')
+  .option('-l, --level <name>', 'Debug level DeveloperName', 'SFDebugSearch')
+  .option('-p, --preset <preset>', `Preset used if the debug level doesn't exist yet: ${Object.keys(DEBUG_LEVEL_PRESETS).join(', ')}`, 'default')
+  .option('--duration <minutes>', `Minutes until the trace flag expires (max ${MAX_TRACE_FLAG_MINUTES})`, '60')
+  .action(async (options) => {
+    try {
+      const manager = new TraceFlagManager(createClient(program.opts()));
+      const { entityType, entity } = resolveTraceTarget(options);
+
+      const debugLevel = await manager.ensureDebugLevel(options.level, options.preset);
+      const flag = await manager.createTraceFlag({
+        entityType,
+        entity,
+        debugLevel: debugLevel.DeveloperName,
+        durationMinutes: parseInt(options.duration)
+      });
+
+      printStatus(chalk.green(`✅ Trace flag ${flag.Id} created for ${entityType} ${entity}`));
+      printStatus(chalk.gray(`   Debug level: ${debugLevel.DeveloperName}`));
+      printStatus(chalk.gray(`   Expires: ${moment(flag.ExpirationDate).format('YYYY-MM-DD HH:mm:ss')}`));
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+trace
+  .command('extend <traceFlagId>')
+  .description('Restart a trace flag so it runs for another period from now')
+  .option('--duration <minutes>', `Minutes until the trace flag expires (max ${MAX_TRACE_FLAG_MINUTES})`, '60')
+  .option('-l, --level <name>', 'Switch to another debug level')
+  .action(async (traceFlagId, options) => {
+    try {
+      const manager = new TraceFlagManager(createClient(program.opts()));
+
+      const { expirationDate } = await manager.extendTraceFlag(traceFlagId, parseInt(options.duration), options.level);
+      printStatus(chalk.green(`✅ Trace flag ${traceFlagId} now expires ${moment(expirationDate).format('YYYY-MM-DD HH:mm:ss')}`));
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+trace
+  .command('remove <traceFlagIds...>')
+  .description('Delete trace flags')
+  .action(async (traceFlagIds: string[]) => {
+    try {
+      const manager = new TraceFlagManager(createClient(program.opts()));
+
+      for (const traceFlagId of traceFlagIds) {
+        await manager.removeTraceFlag(traceFlagId);
+        printStatus(chalk.green(`✅ Removed trace flag ${traceFlagId}`));
+      }
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// Debug level commands
+const debugLevel = program
+  .command('debug-level')
+  .description('Manage DebugLevel records');
+
+debugLevel
+  .command('list')
+  .description('List debug levels')
+  .action(async () => {
+    try {
+      const manager = new TraceFlagManager(createClient(program.opts()));
+
+      const levels = await manager.listDebugLevels();
+      if (levels.length === 0) {
+        printStatus(chalk.yellow('No debug levels found.'));
+        return;
+      }
+
+      levels.forEach(level => printDebugLevel(level));
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+debugLevel
+  .command('presets')
+  .description('Show the built-in debug level presets')
+  .action(() => {
+    Object.entries(DEBUG_LEVEL_PRESETS).forEach(([name, settings]) => {
+      printStatus(chalk.cyan(`🎚️  ${name}`));
+      printStatus(chalk.gray(`   ${DEBUG_LEVEL_CATEGORIES.map(category => `${category}=${settings[category]}`).join(' ')}`));
+    });
+  });
+
+addCategoryOptions(
+  debugLevel
+    .command('create <name>')
+    .description('Create a debug level from a preset')
+    .option('-p, --preset <preset>', `Preset to start from: ${Object.keys(DEBUG_LEVEL_PRESETS).join(', ')}`, 'default')
+).action(async (name, options) => {
+  try {
+    const manager = new TraceFlagManager(createClient(program.opts()));
+
+    const level = await manager.createDebugLevel(name, options.preset, collectCategoryLevels(options));
+    printStatus(chalk.green(`✅ Debug level ${level.DeveloperName} created (${level.Id})`));
+    printDebugLevel(level);
+
+  } catch (error) {
+    exitWithError(error);
+  }
+});
+
+addCategoryOptions(
+  debugLevel
+    .command('edit <name>')
+    .description('Change the levels of an existing debug level')
+    .option('-p, --preset <preset>', `Reset all categories to a preset: ${Object.keys(DEBUG_LEVEL_PRESETS).join(', ')}`)
+).action(async (name, options) => {
+  try {
+    const manager = new TraceFlagManager(createClient(program.opts()));
+
+    const level = await manager.updateDebugLevel(name, options.preset, collectCategoryLevels(options));
+    printStatus(chalk.green(`✅ Debug level ${level.DeveloperName} updated`));
+    printDebugLevel(level);
+
+  } catch (error) {
+    exitWithError(error);
+  }
+});
+
+// Capture command
+program
+  .command('capture')
+  .description('Enable tracing for a user, wait while you reproduce an issue, then download the logs and clean up')
+  .requiredOption('-u, --user-id <userId>', 'User to trace')
+  .option('-l, --level <name>', 'Debug level DeveloperName', 'SFDebugSearch')
+  .option('-p, --preset <preset>', `Debug level preset to apply for the session: ${Object.keys(DEBUG_LEVEL_PRESETS).join(', ')}`)
+  .option('--timeout <minutes>', 'Stop waiting after this many minutes', '30')
+  .option('-o, --output-dir <dir>', 'Output directory for captured logs (default: ./captures/<timestamp>)')
+  .option('--no-metadata', 'Skip saving metadata files')
+  .option('--verbose', 'Show detailed download progress')
+  .action(async (options) => {
+    const client = createClient(program.opts());
+    const searcher = new LogSearcher(client, libraryOptions(options.verbose));
+    const timeoutMinutes = parseFloat(options.timeout);
+    const outputDir = path.resolve(options.outputDir || path.join('./captures', moment().format('YYYY-MM-DD_HH-mm-ss')));
+
+    const session = new CaptureSession(client, {
+      userId: options.userId,
+      debugLevel: options.level,
+      preset: options.preset,
+      // Keep the trace flag alive a little past the timeout, within the 24 hour cap
+      durationMinutes: Math.min(Math.ceil(timeoutMinutes) + 5, MAX_TRACE_FLAG_MINUTES)
+    });
+
+    const finish = async () => {
+      await session.cleanup();
+      const summary = session.getSummary();
+
+      summary.cleanup.forEach(step => printStatus(chalk.green(`   ✅ ${step}`)));
+      summary.cleanupErrors.forEach(error => printStatus(chalk.red(`   ❌ Cleanup failed: ${error}`)));
+
+      FileUtils.ensureDirectoryExists(outputDir);
+      await FileUtils.createCaptureSummary(path.join(outputDir, 'capture-summary.json'), summary);
+      printStatus(chalk.white(`   📄 Session summary: ${path.join(outputDir, 'capture-summary.json')}`));
+    };
+
+    let interrupted = false;
+    const interrupt = async () => {
+      if (interrupted) {
+        return;
+      }
+      interrupted = true;
+      printStatus(chalk.yellow('\n⚠️  Interrupted, cleaning up before exit...'));
+      await finish();
+      process.exit(130);
+    };
+    process.on('SIGINT', interrupt);
+
+    try {
+      if (!Number.isFinite(timeoutMinutes) || timeoutMinutes <= 0) {
+        throw new Error(`Invalid timeout: ${options.timeout}`);
+      }
+
+      printStatus(chalk.blue(`🎬 Starting capture session for user ${options.userId}...`));
+
+      await connectToSource(client);
+
+      const summary = await session.start();
+      if (interrupted) {
+        // Ctrl+C arrived while tracing was being set up; the interrupt handler cleans up and exits
+        return;
+      }
+      printStatus(chalk.green(`🚩 Tracing enabled (trace flag ${summary.traceFlagId}${summary.reusedTraceFlag ? ', reused' : ''}, debug level ${options.level})`));
+
+      const reason = await waitForEnterOrTimeout(
+        chalk.yellow(`\n▶️  Reproduce the issue now. Press Enter when done (auto-stops in ${timeoutMinutes} minutes)... `),
+        timeoutMinutes * 60 * 1000,
+        interrupt
+      );
+      printStatus(chalk.blue(reason === 'timeout' ? '\n⏰ Timeout reached, collecting logs...' : '\n📥 Collecting logs...'));
+
+      const download = await session.collect(searcher, {
+        outputDir,
+        includeMetadata: options.metadata
+      });
+
+      printStatus(chalk.green('\n📊 Capture Summary:'));
+      printStatus(chalk.white(`   Logs captured: ${session.getSummary().capturedLogIds.length}`));
+      printStatus(chalk.green(`   ✅ Successfully downloaded: ${download.downloadedLogs}`));
+      if (download.failedDownloads.length > 0) {
+        printStatus(chalk.red(`   ❌ Failed downloads: ${download.failedDownloads.length}`));
+      }
+      printStatus(chalk.white(`   📁 Download location: ${download.downloadPath}`));
+
+    } catch (error) {
+      console.error(chalk.red(`❌ Error: ${errorMessage(error)}`));
+      process.exitCode = error instanceof SalesforceError ? error.exitCode : EXIT_CODES.ERROR;
+    } finally {
+      if (!interrupted) {
+        printStatus(chalk.blue('\n🧹 Cleaning up...'));
+        await finish();
+      }
+      process.removeListener('SIGINT', interrupt);
+    }
+  });
+
+// Sync command
+program
+  .command('sync')
+  .description('Incrementally download new debug logs into a directory')
+  .argument('<dir>', 'Directory to keep in sync')
+  .option('-u, --user-id <userId>', 'Filter by user ID')
+  .option('--user <users>', 'Filter logs by username, email or name, comma-separated for several users')
+  .option('--date-from <date>', 'Filter logs from date (YYYY-MM-DD)')
+  .option('--date-to <date>', 'Filter logs to date (YYYY-MM-DD)')
+  .option('-w, --where <expression>', 'Filter by field expression, e.g. "Operation LIKE \'%Batch%\'"')
+  .option('--max <number>', 'Maximum number of logs to consider')
+  .option('--no-metadata', 'Skip saving metadata files')
+  .option('--verify', 'Re-download logs whose local file is missing or changed')
+  .option('--verbose', 'Show each synced file')
+  .action(async (dir, options) => {
+    try {
+      const client = createClient(program.opts());
+      const sync = new LogSync(client, libraryOptions(options.verbose, 'Synced'));
+
+      printStatus(chalk.blue(`🔄 Syncing debug logs to ${dir}...`));
+
+      await connectToSource(client, options);
+
+      const result = await sync.sync({
+        outputDir: dir,
+        userId: options.userId,
+        userIds: options.userIds,
+        excludeUserIds: options.excludeUserIds,
+        dateFrom: formatDate(options.dateFrom),
+        dateTo: formatDate(options.dateTo),
+        where: options.where,
+        maxLogs: options.max ? parseInt(options.max) : undefined,
+        includeMetadata: options.metadata,
+        verify: options.verify
+      });
+
+      printStatus(chalk.green('\n📊 Sync Summary:'));
+      printStatus(chalk.white(`   Logs matched: ${result.totalLogs}`));
+      printStatus(chalk.white(`   Already synced: ${result.alreadySynced}`));
+      printStatus(chalk.green(`   ✅ Downloaded: ${result.downloaded}`));
+      if (result.repaired > 0) {
+        printStatus(chalk.yellow(`   🔧 Repaired: ${result.repaired}`));
+      }
+      if (result.failedDownloads.length > 0) {
+        printStatus(chalk.red(`   ❌ Failed downloads: ${result.failedDownloads.length}`));
+      }
+      printStatus(chalk.white(`   📦 Downloaded size: ${FileUtils.formatBytes(result.bytesDownloaded)}`));
+      printStatus(chalk.white(`   📄 Manifest: ${result.manifestPath}`));
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+// Log body cache commands
+const cache = program
+  .command('cache')
+  .description('Inspect or clear the local cache of downloaded log bodies and user names');
+
+cache
+  .command('stats')
+  .description('Show cache size, hit rate and cached logs per org')
+  .action(() => {
+    try {
+      const stats = createBodyCache(program.opts()).stats();
+      const lookups = stats.hits + stats.misses;
+
+      printStatus(chalk.blue('🗄️  Log body cache'));
+      printStatus(chalk.white(`   Location: ${stats.directory}`));
+      printStatus(chalk.white(`   Cached logs: ${stats.entries}`));
+      printStatus(chalk.white(`   Size: ${FileUtils.formatBytes(stats.totalBytes)} of ${FileUtils.formatBytes(stats.maxBytes)}`));
+      printStatus(chalk.white(`   Hit rate: ${lookups > 0 ? ((stats.hits / lookups) * 100).toFixed(1) : '0.0'}% (${stats.hits} hits, ${stats.misses} misses)`));
+      if (stats.oldestAccessAt && stats.newestAccessAt) {
+        printStatus(chalk.white(`   Last used: ${moment(stats.oldestAccessAt).format('YYYY-MM-DD HH:mm')} to ${moment(stats.newestAccessAt).format('YYYY-MM-DD HH:mm')}`));
+      }
+
+      Object.entries(stats.orgs).forEach(([org, orgStats]) => {
+        printStatus(chalk.gray(`   ${org}: ${orgStats.entries} logs, ${FileUtils.formatBytes(orgStats.bytes)}`));
+      });
+      printStatus(chalk.white(`   Cached users: ${createUserCache(program.opts()).size}`));
+
+    } catch (error) {
+      exitWithError(error);
+    }
+  });
+
+cache
+  .command('clear')
+  .description('Delete cached log bodies and user names')
+  .option('--current-org', 'Only clear logs cached for the org given by --instance-url')
+  .action((options) => {
+    try {
+      const globalOptions = program.opts();
+      if (options.currentOrg && !globalOptions.instanceUrl) {
+        throw new Error('--current-org needs an instance URL (use --instance-url or SF_INSTANCE_URL env var)');
+      }
+
+      const instanceUrl = options.currentOrg ? globalOptions.instanceUrl : undefined;
+      const cleared = createBodyCache(globalOptions).clear(instanceUrl);
+      const clearedUsers = createUserCache(globalOptions).clear(instanceUrl);
+      printStatus(chalk.green(`🧹 Removed ${cleared.entries} cached logs (${FileUtils.formatBytes(cleared.bytes)}) and ${clearedUsers} cached users`));
+
+    } catch (error) {
+      exitWithError(error);
     }
   });
 
@@ -234,59 +1054,51 @@ program
 program
   .command('list')
   .description('List recent debug logs')
+  .option('--from-dir <dir>', 'Read downloaded logs from a local directory instead of the org')
   .option('-m, --max-results <number>', 'Maximum number of logs to list', '20')
   .option('-u, --user-id <userId>', 'Filter logs by user ID')
+  .option('--user <users>', 'Filter logs by username, email or name, comma-separated for several users')
   .option('--date-from <date>', 'Filter logs from date (YYYY-MM-DD or ISO format)')
   .option('--date-to <date>', 'Filter logs to date (YYYY-MM-DD or ISO format)')
+  .option('-w, --where <expression>', 'Filter logs by field expression (see search --help)')
+  .option('-f, --format <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'text')
   .action(async (options) => {
     try {
-      const client = createClient(program.opts());
+      const format = initOutputFormat(options);
+      const source = createLogSource(options);
 
-      console.log(chalk.blue('📋 Listing recent debug logs...'));
+      printStatus(chalk.blue('📋 Listing recent debug logs...'));
 
-      // Test connection first
-      console.log(chalk.gray('Testing connection...'));
-      const isConnected = await client.testConnection();
-      if (!isConnected) {
-        console.error(chalk.red('❌ Failed to connect to Salesforce. Please check your credentials.'));
-        process.exit(1);
-      }
-      console.log(chalk.green('✅ Connected to Salesforce'));
+      await connectToSource(source, options);
+      const query = buildLogQuery(options);
 
-      let logs;
-      if (options.userId) {
-        logs = await client.getDebugLogsByUser(options.userId, parseInt(options.maxResults));
-      } else if (options.dateFrom || options.dateTo) {
-        logs = await client.getDebugLogsByDateRange(
-          formatDate(options.dateFrom),
-          formatDate(options.dateTo),
-          parseInt(options.maxResults)
-        );
-      } else {
-        logs = await client.getDebugLogs(parseInt(options.maxResults));
+      const logs = await source.queryDebugLogs(query, parseInt(options.maxResults));
+
+      if (format !== 'text') {
+        printOutput(format, OutputFormatter.logList(logs));
+        return;
       }
 
       if (logs.length === 0) {
-        console.log(chalk.yellow('No debug logs found.'));
+        printStatus(chalk.yellow('No debug logs found.'));
         return;
       }
 
-      console.log(chalk.green(`\nFound ${logs.length} debug logs:\n`));
+      printStatus(chalk.green(`\nFound ${logs.length} debug logs:\n`));
 
       logs.forEach((log, index) => {
-        console.log(chalk.cyan(`📋 Log ${index + 1}: ${log.Id}`));
-        console.log(chalk.gray(`   User: ${log.LogUserId}`));
-        console.log(chalk.gray(`   Date: ${moment(log.LastModifiedDate).format('YYYY-MM-DD HH:mm:ss')}`));
-        console.log(chalk.gray(`   Operation: ${log.Operation}`));
-        console.log(chalk.gray(`   Status: ${log.Status}`));
-        console.log(chalk.gray(`   Duration: ${log.DurationMilliseconds}ms`));
-        console.log(chalk.gray(`   Length: ${log.LogLength} bytes`));
-        console.log('');
+        printStatus(chalk.cyan(`📋 Log ${index + 1}: ${log.Id}`));
+        printStatus(chalk.gray(`   User: ${formatUser(log)}`));
+        printStatus(chalk.gray(`   Date: ${moment(log.LastModifiedDate).format('YYYY-MM-DD HH:mm:ss')}`));
+        printStatus(chalk.gray(`   Operation: ${log.Operation}`));
+        printStatus(chalk.gray(`   Status: ${log.Status}`));
+        printStatus(chalk.gray(`   Duration: ${log.DurationMilliseconds}ms`));
+        printStatus(chalk.gray(`   Length: ${log.LogLength} bytes`));
+        printStatus('');
       });
 
     } catch (error) {
-      console.error(chalk.red(`❌ Error: ${error}`));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -301,47 +1113,38 @@ program
   .action(async (logIds, options) => {
     try {
       const client = createClient(program.opts());
-      const searcher = new LogSearcher(client);
+      const searcher = new LogSearcher(client, libraryOptions(options.verbose));
 
-      console.log(chalk.blue(`📥 Downloading ${logIds.length} specific logs...`));
+      printStatus(chalk.blue(`📥 Downloading ${logIds.length} specific logs...`));
 
-      // Test connection first
-      console.log(chalk.gray('Testing connection...'));
-      const isConnected = await client.testConnection();
-      if (!isConnected) {
-        console.error(chalk.red('❌ Failed to connect to Salesforce. Please check your credentials.'));
-        process.exit(1);
-      }
-      console.log(chalk.green('✅ Connected to Salesforce'));
+      await connectToSource(client);
 
       const downloadOptions: DownloadOptions = {
         outputDir: path.resolve(options.outputDir),
         includeMetadata: !options.noMetadata,
-        createSummary: !options.noSummary,
-        verbose: options.verbose
+        createSummary: !options.noSummary
       };
 
       const downloadResult = await searcher.downloadLogsByIds(logIds, downloadOptions);
 
       // Display download summary
-      console.log(chalk.green('\n📊 Download Summary:'));
-      console.log(chalk.white(`   Requested logs: ${logIds.length}`));
-      console.log(chalk.green(`   ✅ Successfully downloaded: ${downloadResult.downloadedLogs}`));
+      printStatus(chalk.green('\n📊 Download Summary:'));
+      printStatus(chalk.white(`   Requested logs: ${logIds.length}`));
+      printStatus(chalk.green(`   ✅ Successfully downloaded: ${downloadResult.downloadedLogs}`));
       
       if (downloadResult.failedDownloads.length > 0) {
-        console.log(chalk.red(`   ❌ Failed downloads: ${downloadResult.failedDownloads.length}`));
+        printStatus(chalk.red(`   ❌ Failed downloads: ${downloadResult.failedDownloads.length}`));
         if (options.verbose) {
           downloadResult.failedDownloads.forEach(logId => {
-            console.log(chalk.red(`      - ${logId}`));
+            printStatus(chalk.red(`      - ${logId}`));
           });
         }
       }
       
-      console.log(chalk.white(`   📁 Download location: ${downloadResult.downloadPath}`));
+      printStatus(chalk.white(`   📁 Download location: ${downloadResult.downloadPath}`));
 
     } catch (error) {
-      console.error(chalk.red(`❌ Error: ${error}`));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -349,112 +1152,98 @@ program
 program
   .command('count')
   .description('Show total number of debug logs available')
+  .option('--from-dir <dir>', 'Read downloaded logs from a local directory instead of the org')
+  .option('--orgs <names>', 'Comma-separated org profiles or Salesforce CLI aliases to count in parallel')
   .option('-u, --user-id <userId>', 'Count logs for specific user')
+  .option('--user <users>', 'Count logs for these users: usernames, emails or names, comma-separated')
   .option('--date-from <date>', 'Count logs from date (YYYY-MM-DD or ISO format)')
   .option('--date-to <date>', 'Count logs to date (YYYY-MM-DD or ISO format)')
+  .option('-w, --where <expression>', 'Count logs matching a field expression (see search --help)')
   .option('--detailed', 'Show detailed breakdown by user and operation')
   .option('--all', 'Fetch ALL logs using batching (may take time for large datasets)')
   .option('--max <number>', 'Maximum number of logs to fetch (default: 2000)', '2000')
+  .option('-f, --format <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'text')
   .action(async (options) => {
     try {
-      const client = createClient(program.opts());
+      const format = initOutputFormat(options);
+      if (options.orgs) {
+        await countAcrossOrgs(options, format);
+        return;
+      }
+      const source = createLogSource(options);
 
-      console.log(chalk.blue('📊 Counting debug logs...'));
+      printStatus(chalk.blue('📊 Counting debug logs...'));
 
-      // Test connection first
-      console.log(chalk.gray('Testing connection...'));
-      const isConnected = await client.testConnection();
-      if (!isConnected) {
-        console.error(chalk.red('❌ Failed to connect to Salesforce. Please check your credentials.'));
-        process.exit(1);
-      }
-      console.log(chalk.green('✅ Connected to Salesforce'));
+      await connectToSource(source, options);
 
       let logs;
+      let truncated = false;
       const maxLogs = options.all ? undefined : parseInt(options.max);
+      const query = buildLogQuery(options);
+      const scope = describeFilters(options);
 
       if (options.all) {
-        console.log(chalk.yellow('🔄 Fetching ALL logs (this may take a while for large datasets)...'));
-        
-        if (options.userId) {
-          logs = await client.getAllDebugLogsByUser(options.userId, maxLogs);
-          console.log(chalk.cyan(`\n📋 ALL debug logs for user ${options.userId}:`));
-        } else if (options.dateFrom || options.dateTo) {
-          logs = await client.getAllDebugLogsByDateRange(
-            formatDate(options.dateFrom),
-            formatDate(options.dateTo),
-            maxLogs
-          );
-          const dateRange = [
-            options.dateFrom ? `from ${options.dateFrom}` : '',
-            options.dateTo ? `to ${options.dateTo}` : ''
-          ].filter(Boolean).join(' ');
-          console.log(chalk.cyan(`\n📋 ALL debug logs ${dateRange}:`));
-        } else {
-          logs = await client.getAllDebugLogs(maxLogs);
-          console.log(chalk.cyan(`\n📋 ALL debug logs:`));
+        printStatus(chalk.yellow('🔄 Fetching ALL logs (this may take a while for large datasets)...'));
+
+        const paged = await source.queryAllDebugLogs(query, maxLogs);
+        logs = paged.records;
+        truncated = paged.truncated;
+        printStatus(chalk.cyan(`\n📋 ALL debug logs${scope}:`));
+
+        if (paged.truncated) {
+          printStatus(chalk.yellow(`   ⚠️  Incomplete: only ${logs.length} of ${paged.totalSize} logs could be fetched`));
         }
       } else {
         // Quick count using limited fetch
-        if (options.userId) {
-          logs = await client.getDebugLogsByUser(options.userId, maxLogs);
-          console.log(chalk.cyan(`\n📋 Debug logs for user ${options.userId} (sample):`));
-        } else if (options.dateFrom || options.dateTo) {
-          logs = await client.getDebugLogsByDateRange(
-            formatDate(options.dateFrom),
-            formatDate(options.dateTo),
-            maxLogs
-          );
-          const dateRange = [
-            options.dateFrom ? `from ${options.dateFrom}` : '',
-            options.dateTo ? `to ${options.dateTo}` : ''
-          ].filter(Boolean).join(' ');
-          console.log(chalk.cyan(`\n📋 Debug logs ${dateRange} (sample):`));
-        } else {
-          logs = await client.getDebugLogs(maxLogs);
-          console.log(chalk.cyan(`\n📋 Recent debug logs (sample):`));
-        }
+        logs = await source.queryDebugLogs(query, maxLogs);
+        printStatus(chalk.cyan(`\n📋 ${scope ? `Debug logs${scope}` : 'Recent debug logs'} (sample):`));
+      }
+
+      if (format !== 'text') {
+        printOutput(format, OutputFormatter.countSummary(summarizeLogCount(logs, truncated || (!options.all && logs.length === maxLogs), options.detailed)));
+        return;
       }
 
       // Basic count
-      console.log(chalk.green(`   Total logs found: ${logs.length}`));
+      printStatus(chalk.green(`   Total logs found: ${logs.length}`));
       if (!options.all && logs.length === maxLogs) {
-        console.log(chalk.yellow(`   ⚠️  Showing first ${maxLogs} logs (use --all to fetch everything)`));
+        printStatus(chalk.yellow(`   ⚠️  Showing first ${maxLogs} logs (use --all to fetch everything)`));
       }
 
       if (logs.length === 0) {
-        console.log(chalk.yellow('   No logs found for the specified criteria.'));
+        printStatus(chalk.yellow('   No logs found for the specified criteria.'));
         return;
       }
 
       // Calculate total size
       const totalSize = logs.reduce((sum, log) => sum + log.LogLength, 0);
-      console.log(chalk.white(`   Total size: ${require('./file-utils').FileUtils.formatBytes(totalSize)}`));
+      printStatus(chalk.white(`   Total size: ${FileUtils.formatBytes(totalSize)}`));
 
       // Date range of logs
       if (logs.length > 0) {
         const dates = logs.map(log => new Date(log.LastModifiedDate)).sort((a, b) => a.getTime() - b.getTime());
         const oldest = moment(dates[0]).format('YYYY-MM-DD HH:mm:ss');
         const newest = moment(dates[dates.length - 1]).format('YYYY-MM-DD HH:mm:ss');
-        console.log(chalk.white(`   Date range: ${oldest} to ${newest}`));
+        printStatus(chalk.white(`   Date range: ${oldest} to ${newest}`));
       }
 
       // Detailed breakdown
       if (options.detailed) {
-        console.log(chalk.blue('\n📈 Detailed Breakdown:'));
+        printStatus(chalk.blue('\n📈 Detailed Breakdown:'));
 
         // Group by user
         const byUser = logs.reduce((acc, log) => {
           acc[log.LogUserId] = (acc[log.LogUserId] || 0) + 1;
           return acc;
         }, {} as Record<string, number>);
+        const userLogs = new Map(logs.map(log => [log.LogUserId, log]));
 
-        console.log(chalk.yellow('\n👥 By User:'));
+        printStatus(chalk.yellow('\n👥 By User:'));
         Object.entries(byUser)
           .sort(([,a], [,b]) => b - a)
           .slice(0, 10) // Top 10 users
           .forEach(([userId, count]) => {
-            console.log(chalk.white(`   ${userId}: ${count} logs`));
+            printStatus(chalk.white(`   ${formatUser(userLogs.get(userId)!)}: ${count} logs`));
           });
 
         // Group by operation
@@ -463,12 +1252,12 @@ program
           return acc;
         }, {} as Record<string, number>);
 
-        console.log(chalk.yellow('\n⚙️  By Operation:'));
+        printStatus(chalk.yellow('\n⚙️  By Operation:'));
         Object.entries(byOperation)
           .sort(([,a], [,b]) => b - a)
           .slice(0, 10) // Top 10 operations
           .forEach(([operation, count]) => {
-            console.log(chalk.white(`   ${operation}: ${count} logs`));
+            printStatus(chalk.white(`   ${operation}: ${count} logs`));
           });
 
         // Group by status
@@ -477,21 +1266,20 @@ program
           return acc;
         }, {} as Record<string, number>);
 
-        console.log(chalk.yellow('\n📊 By Status:'));
+        printStatus(chalk.yellow('\n📊 By Status:'));
         Object.entries(byStatus)
           .sort(([,a], [,b]) => b - a)
           .forEach(([status, count]) => {
-            console.log(chalk.white(`   ${status}: ${count} logs`));
+            printStatus(chalk.white(`   ${status}: ${count} logs`));
           });
 
         // Average log size
         const avgSize = totalSize / logs.length;
-        console.log(chalk.white(`\n📏 Average log size: ${require('./file-utils').FileUtils.formatBytes(avgSize)}`));
+        printStatus(chalk.white(`\n📏 Average log size: ${FileUtils.formatBytes(avgSize)}`));
       }
 
     } catch (error) {
-      console.error(chalk.red(`❌ Error: ${error}`));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -501,34 +1289,33 @@ program
   .description('⚠️  DELETE specific debug logs by their IDs (DESTRUCTIVE OPERATION)')
   .option('--force', 'Skip confirmation prompt (dangerous!)')
   .option('--dry-run', 'Show what would be deleted without actually deleting')
+  .option('-f, --format <format>', `Output format (${OUTPUT_FORMATS.join(', ')})`, 'text')
   .action(async (logIds, options) => {
     try {
+      const format = initOutputFormat(options);
       const client = createClient(program.opts());
 
-      console.log(chalk.red('⚠️  DESTRUCTIVE OPERATION: DELETE DEBUG LOGS'));
-      console.log(chalk.yellow(`📋 Requested to delete ${logIds.length} log(s):`));
+      printStatus(chalk.red('⚠️  DESTRUCTIVE OPERATION: DELETE DEBUG LOGS'));
+      printStatus(chalk.yellow(`📋 Requested to delete ${logIds.length} log(s):`));
       
       logIds.forEach((logId: string, index: number) => {
-        console.log(chalk.white(`   ${index + 1}. ${logId}`));
+        printStatus(chalk.white(`   ${index + 1}. ${logId}`));
       });
 
-      // Test connection first
-      console.log(chalk.gray('\nTesting connection...'));
-      const isConnected = await client.testConnection();
-      if (!isConnected) {
-        console.error(chalk.red('❌ Failed to connect to Salesforce. Please check your credentials.'));
-        process.exit(1);
-      }
-      console.log(chalk.green('✅ Connected to Salesforce'));
+      printStatus();
+      await connectToSource(client);
 
       // Dry run mode
       if (options.dryRun) {
-        console.log(chalk.yellow('\n🔍 DRY RUN MODE - No actual deletions will be made'));
-        console.log(chalk.blue('The following logs would be deleted:'));
+        printStatus(chalk.yellow('\n🔍 DRY RUN MODE - No actual deletions will be made'));
+        printStatus(chalk.blue('The following logs would be deleted:'));
         logIds.forEach((logId: string, index: number) => {
-          console.log(chalk.white(`   ${index + 1}. ${logId}`));
+          printStatus(chalk.white(`   ${index + 1}. ${logId}`));
         });
-        console.log(chalk.yellow('\n💡 Run without --dry-run to actually delete these logs'));
+        printStatus(chalk.yellow('\n💡 Run without --dry-run to actually delete these logs'));
+        if (format !== 'text') {
+          printOutput(format, OutputFormatter.deleteOutcome({ dryRun: true, requested: logIds, deleted: [], failed: [] }));
+        }
         return;
       }
 
@@ -537,7 +1324,7 @@ program
         const readline = require('readline');
         const rl = readline.createInterface({
           input: process.stdin,
-          output: process.stdout
+          output: format === 'text' ? process.stdout : process.stderr
         });
 
         const answer = await new Promise<string>((resolve) => {
@@ -547,7 +1334,10 @@ program
         rl.close();
 
         if (answer !== 'DELETE') {
-          console.log(chalk.yellow('❌ Deletion cancelled. Logs were not deleted.'));
+          printStatus(chalk.yellow('❌ Deletion cancelled. Logs were not deleted.'));
+          if (format !== 'text') {
+            printOutput(format, OutputFormatter.deleteOutcome({ dryRun: false, requested: logIds, deleted: [], failed: [] }));
+          }
           return;
         }
       }
@@ -555,7 +1345,7 @@ program
       // Start timing
       const startTime = Date.now();
       
-      console.log(chalk.red('\n🗑️  Starting deletion process...'));
+      printStatus(chalk.red('\n🗑️  Starting deletion process...'));
       const { deleted, failed } = await client.deleteDebugLogs(logIds);
 
       // Calculate timing
@@ -563,24 +1353,27 @@ program
       const duration = ((endTime - startTime) / 1000).toFixed(2);
 
       // Display results
-      console.log(chalk.blue('\n📊 Deletion Summary:'));
-      console.log(chalk.green(`   ✅ Successfully deleted: ${deleted.length}`));
+      printStatus(chalk.blue('\n📊 Deletion Summary:'));
+      printStatus(chalk.green(`   ✅ Successfully deleted: ${deleted.length}`));
       if (failed.length > 0) {
-        console.log(chalk.red(`   ❌ Failed to delete: ${failed.length}`));
-        console.log(chalk.red('   Failed log IDs:'));
+        printStatus(chalk.red(`   ❌ Failed to delete: ${failed.length}`));
+        printStatus(chalk.red('   Failed log IDs:'));
         failed.forEach(logId => {
-          console.log(chalk.red(`      - ${logId}`));
+          printStatus(chalk.red(`      - ${logId}`));
         });
       }
-      console.log(chalk.white(`   ⏱️  Total time: ${duration} seconds`));
+      printStatus(chalk.white(`   ⏱️  Total time: ${duration} seconds`));
 
       if (deleted.length > 0) {
-        console.log(chalk.red('\n⚠️  LOGS HAVE BEEN PERMANENTLY DELETED!'));
+        printStatus(chalk.red('\n⚠️  LOGS HAVE BEEN PERMANENTLY DELETED!'));
+      }
+
+      if (format !== 'text') {
+        printOutput(format, OutputFormatter.deleteOutcome({ dryRun: false, requested: logIds, deleted, failed }));
       }
 
     } catch (error) {
-      console.error(chalk.red(`❌ Error: ${error}`));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -591,53 +1384,44 @@ program
   .option('--force', 'Skip confirmation prompts (extremely dangerous!)')
   .option('--dry-run', 'Show what would be deleted without actually deleting')
   .option('-u, --user-id <userId>', 'Delete logs only for specific user')
+  .option('--user <users>', 'Delete logs only for these users: usernames, emails or names, comma-separated')
   .option('--date-from <date>', 'Delete logs from date (YYYY-MM-DD or ISO format)')
   .option('--date-to <date>', 'Delete logs to date (YYYY-MM-DD or ISO format)')
+  .option('-w, --where <expression>', 'Delete only logs matching a field expression (see search --help)')
   .action(async (options) => {
     try {
       const client = createClient(program.opts());
 
-      console.log(chalk.red('🚨 EXTREMELY DANGEROUS OPERATION: DELETE ALL DEBUG LOGS'));
+      printStatus(chalk.red('🚨 EXTREMELY DANGEROUS OPERATION: DELETE ALL DEBUG LOGS'));
       
-      // Test connection first
-      console.log(chalk.gray('Testing connection...'));
-      const isConnected = await client.testConnection();
-      if (!isConnected) {
-        console.error(chalk.red('❌ Failed to connect to Salesforce. Please check your credentials.'));
-        process.exit(1);
-      }
-      console.log(chalk.green('✅ Connected to Salesforce'));
+      await connectToSource(client, options);
 
       // Get logs to delete
-      let logs;
-      if (options.userId) {
-        logs = await client.getAllDebugLogsByUser(options.userId);
-        console.log(chalk.yellow(`📋 Found ${logs.length} logs for user ${options.userId}`));
-      } else if (options.dateFrom || options.dateTo) {
-        logs = await client.getAllDebugLogsByDateRange(
-          formatDate(options.dateFrom),
-          formatDate(options.dateTo)
-        );
-        const dateRange = [
-          options.dateFrom ? `from ${options.dateFrom}` : '',
-          options.dateTo ? `to ${options.dateTo}` : ''
-        ].filter(Boolean).join(' ');
-        console.log(chalk.yellow(`📋 Found ${logs.length} logs ${dateRange}`));
+      const query = buildLogQuery(options);
+      const scope = describeFilters(options);
+      const paged = await client.queryAllDebugLogs(query);
+      const logs = paged.records;
+
+      if (scope) {
+        printStatus(chalk.yellow(`📋 Found ${logs.length} logs${scope}`));
       } else {
-        logs = await client.getAllDebugLogs();
-        console.log(chalk.red(`📋 Found ${logs.length} TOTAL logs in the org`));
+        printStatus(chalk.red(`📋 Found ${logs.length} TOTAL logs in the org`));
+      }
+
+      if (paged.truncated) {
+        printStatus(chalk.yellow(`⚠️  Could only fetch ${logs.length} of ${paged.totalSize} matching logs; the rest will not be deleted`));
       }
 
       if (logs.length === 0) {
-        console.log(chalk.yellow('No logs found to delete.'));
+        printStatus(chalk.yellow('No logs found to delete.'));
         return;
       }
 
       // Dry run mode
       if (options.dryRun) {
-        console.log(chalk.yellow('\n🔍 DRY RUN MODE - No actual deletions will be made'));
-        console.log(chalk.blue(`Would delete ${logs.length} logs`));
-        console.log(chalk.yellow('\n💡 Run without --dry-run to actually delete these logs'));
+        printStatus(chalk.yellow('\n🔍 DRY RUN MODE - No actual deletions will be made'));
+        printStatus(chalk.blue(`Would delete ${logs.length} logs`));
+        printStatus(chalk.yellow('\n💡 Run without --dry-run to actually delete these logs'));
         return;
       }
 
@@ -656,7 +1440,7 @@ program
         
         if (answer1 !== 'I UNDERSTAND') {
           rl.close();
-          console.log(chalk.yellow('❌ Deletion cancelled. Logs were not deleted.'));
+          printStatus(chalk.yellow('❌ Deletion cancelled. Logs were not deleted.'));
           return;
         }
 
@@ -668,7 +1452,7 @@ program
         rl.close();
 
         if (answer2 !== 'DELETE ALL LOGS') {
-          console.log(chalk.yellow('❌ Deletion cancelled. Logs were not deleted.'));
+          printStatus(chalk.yellow('❌ Deletion cancelled. Logs were not deleted.'));
           return;
         }
       }
@@ -676,7 +1460,7 @@ program
       // Start timing
       const startTime = Date.now();
       
-      console.log(chalk.red('\n🗑️  Starting mass deletion process...'));
+      printStatus(chalk.red('\n🗑️  Starting mass deletion process...'));
       const logIds = logs.map(log => log.Id);
       const { deleted, failed } = await client.deleteDebugLogs(logIds);
 
@@ -685,20 +1469,19 @@ program
       const duration = ((endTime - startTime) / 1000).toFixed(2);
 
       // Display results
-      console.log(chalk.blue('\n📊 Mass Deletion Summary:'));
-      console.log(chalk.green(`   ✅ Successfully deleted: ${deleted.length}`));
+      printStatus(chalk.blue('\n📊 Mass Deletion Summary:'));
+      printStatus(chalk.green(`   ✅ Successfully deleted: ${deleted.length}`));
       if (failed.length > 0) {
-        console.log(chalk.red(`   ❌ Failed to delete: ${failed.length}`));
+        printStatus(chalk.red(`   ❌ Failed to delete: ${failed.length}`));
       }
-      console.log(chalk.white(`   ⏱️  Total time: ${duration} seconds`));
+      printStatus(chalk.white(`   ⏱️  Total time: ${duration} seconds`));
 
       if (deleted.length > 0) {
-        console.log(chalk.red('\n🚨 LOGS HAVE BEEN PERMANENTLY DELETED FROM YOUR ORG!'));
+        printStatus(chalk.red('\n🚨 LOGS HAVE BEEN PERMANENTLY DELETED FROM YOUR ORG!'));
       }
 
     } catch (error) {
-      console.error(chalk.red(`❌ Error: ${error}`));
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -710,43 +1493,644 @@ program
     try {
       const client = createClient(program.opts());
       
-      console.log(chalk.blue('🔗 Testing connection to Salesforce...'));
+      printStatus(chalk.blue('🔗 Testing connection to Salesforce...'));
       
-      const isConnected = await client.testConnection();
-      
-      if (isConnected) {
-        console.log(chalk.green('✅ Connection successful!'));
-        
-        // Get a sample log to show more info
-        const logs = await client.getDebugLogs(1);
-        if (logs.length > 0) {
-          console.log(chalk.gray(`Sample log found: ${logs[0].Id}`));
-        }
-      } else {
-        console.log(chalk.red('❌ Connection failed. Please check your credentials.'));
-        process.exit(1);
+      await client.verifyConnection();
+      printStatus(chalk.green('✅ Connection successful!'));
+
+      // Get a sample log to show more info
+      const logs = await client.getDebugLogs(1);
+      if (logs.length > 0) {
+        printStatus(chalk.gray(`Sample log found: ${logs[0].Id}`));
       }
     } catch (error) {
-      console.error(chalk.red(`❌ Error: ${error}`));
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+/**
+ * Single-line progress indicator on stderr, redrawn in place.
+ * Only drawn when stderr is a terminal, so piped output stays clean.
+ */
+class ProgressLine {
+  private visible = false;
+
+  update(progress: SearchProgress): void {
+    if (!process.stderr.isTTY) {
+      return;
+    }
+
+    const eta = progress.etaMs !== undefined && progress.processed < progress.total
+      ? `, ETA ${moment.duration(progress.etaMs).humanize()}`
+      : '';
+    const text = `⏳ ${progress.processed}/${progress.total} logs searched, ${progress.matched} matching, ${FileUtils.formatBytes(progress.bytesProcessed)} processed${eta}`;
+
+    process.stderr.write(`\r\x1b[K${chalk.gray(text)}`);
+    this.visible = true;
+  }
+
+  clear(): void {
+    if (this.visible) {
+      process.stderr.write('\r\x1b[K');
+      this.visible = false;
+    }
+  }
+}
+
+function resolveReportPath(report: string | boolean, defaultDir: string): string {
+  return typeof report === 'string' ? path.resolve(report) : path.join(defaultDir, 'report.html');
+}
+
+function initOutputFormat(options: any): OutputFormat {
+  const format = OutputFormatter.parseFormat(options.format);
+  if (format !== 'text') {
+    // Status messages, including those from the library, go to stderr so stdout only carries the result
+    statusStream = process.stderr;
+  }
+  return format;
+}
+
+function printStatus(message: string = ''): void {
+  statusStream.write(`${message}\n`);
+}
+
+function printOutput(format: Exclude<OutputFormat, 'text'>, output: FormattedOutput): void {
+  const rendered = OutputFormatter.render(format, output);
+  process.stdout.write(rendered.length > 0 ? `${rendered}\n` : '');
+}
+
+function summarizeLogCount(logs: DebugLog[], truncated: boolean, detailed: boolean): LogCountSummary {
+  const dates = logs.map(log => log.LastModifiedDate).sort((a, b) => Date.parse(a) - Date.parse(b));
+  const countBy = (key: (log: DebugLog) => string) => logs.reduce((acc, log) => {
+    acc[key(log)] = (acc[key(log)] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return {
+    totalLogs: logs.length,
+    totalBytes: logs.reduce((sum, log) => sum + log.LogLength, 0),
+    oldest: dates[0],
+    newest: dates[dates.length - 1],
+    truncated,
+    breakdown: detailed ? {
+      byUser: countBy(log => log.LogUserId),
+      byOperation: countBy(log => log.Operation),
+      byStatus: countBy(log => log.Status),
+      users: logs.some(log => log.LogUser)
+        ? Object.fromEntries(logs.filter(log => log.LogUser).map(log => [log.LogUserId, log.LogUser!]))
+        : undefined
+    } : undefined
+  };
+}
+
+/**
+ * Progress reporting for library classes; with --verbose every saved log is listed
+ */
+function libraryOptions(verbose?: boolean, savedLabel: string = 'Downloaded'): EventOptions {
+  return {
+    logger: cliLogger,
+    events: verbose ? { onLogDownloaded: event => printStatus(`✅ ${savedLabel}: ${path.basename(event.filePath)}`) } : undefined
+  };
+}
+
+function createLogSource(commandOptions: any): LogSource {
+  return commandOptions.fromDir ? new LocalLogSource(commandOptions.fromDir, libraryOptions()) : createClient(program.opts());
+}
+
+/**
+ * The log source for search and errors: several orgs with --orgs, otherwise one org or directory
+ */
+function createSearchSource(commandOptions: any): LogSource | OrgLogSource[] {
+  if (!commandOptions.orgs) {
+    return createLogSource(commandOptions);
+  }
+  if (commandOptions.fromDir) {
+    throw new Error('--orgs cannot be combined with --from-dir');
+  }
+
+  const names: string[] = commandOptions.orgs.split(',').map((name: string) => name.trim()).filter(Boolean);
+  if (names.length === 0) {
+    throw new Error('--orgs needs at least one org profile or Salesforce CLI alias');
+  }
+
+  const configPath = ProfileConfig.find();
+  const config = configPath ? ProfileConfig.load(configPath) : undefined;
+
+  return Array.from(new Set(names)).map(name => {
+    // Start without credentials so every org only gets its own
+    const options = { ...program.opts() };
+    PROFILE_CREDENTIAL_OPTIONS.forEach(key => delete options[key]);
+
+    if (config?.profileNames.includes(name)) {
+      const profile = config.getProfile(name);
+      PROFILE_CREDENTIAL_OPTIONS.forEach(key => {
+        options[key] = profile[key];
+      });
+      options.apiVersion = profile.apiVersion || options.apiVersion;
+    } else {
+      options.targetOrg = name;
+    }
+
+    return { org: name, source: createClient(options) };
+  });
+}
+
+/**
+ * Connect to the search source. With several orgs, those that can't be reached are left out.
+ */
+async function connectToSearchSource(source: LogSource | OrgLogSource[], commandOptions?: any): Promise<LogSource | OrgLogSource[]> {
+  if (!Array.isArray(source)) {
+    await connectToSource(source, commandOptions);
+    return source;
+  }
+
+  printStatus(chalk.gray(`Testing connection to ${source.length} orgs...`));
+  const connected = await Promise.all(source.map(async entry => {
+    try {
+      await verifySource(entry.source);
+      return { entry };
+    } catch (error) {
+      return { entry, error };
+    }
+  }));
+
+  connected
+    .filter(({ error }) => error)
+    .forEach(({ entry, error }) => printStatus(chalk.yellow(`⚠️  Skipping ${entry.org}: ${errorMessage(error)}`)));
+
+  const available = connected.filter(({ error }) => !error).map(({ entry }) => entry);
+  if (available.length === 0) {
+    // Exit with the first org's failure, so an expired login still exits with the auth code
+    throw connected[0].error;
+  }
+  printStatus(chalk.green(`✅ Connected to ${available.map(entry => entry.org).join(', ')}`));
+  await resolveUserFilter(available.map(entry => entry.source), commandOptions);
+
+  return available;
+}
+
+async function countAcrossOrgs(options: any, format: OutputFormat): Promise<void> {
+  const sources = await connectToSearchSource(createSearchSource(options), options) as OrgLogSource[];
+  const maxLogs = options.all ? undefined : parseInt(options.max);
+  const query = buildLogQuery(options);
+
+  printStatus(chalk.blue(`📊 Counting debug logs in ${sources.length} orgs...`));
+
+  const summaries = await Promise.all(sources.map(async ({ org, source }): Promise<LogCountSummary | undefined> => {
+    try {
+      if (options.all) {
+        const paged = await source.queryAllDebugLogs(query, maxLogs);
+        return { org, ...summarizeLogCount(paged.records, paged.truncated, options.detailed) };
+      }
+      const logs = await source.queryDebugLogs(query, maxLogs);
+      return { org, ...summarizeLogCount(logs, logs.length === maxLogs, options.detailed) };
+    } catch (error) {
+      printStatus(chalk.yellow(`⚠️  Skipping org ${org}: ${error}`));
+      return undefined;
     }
+  }));
+  const counted = summaries.filter((summary): summary is LogCountSummary => summary !== undefined);
+
+  if (format !== 'text') {
+    printOutput(format, OutputFormatter.orgCountSummaries(counted));
+    return;
+  }
+
+  printStatus(chalk.cyan(`\n📋 Debug logs${describeFilters(options)} by org:`));
+  counted.forEach(summary => {
+    const range = summary.oldest
+      ? `, ${moment(summary.oldest).format('YYYY-MM-DD HH:mm:ss')} to ${moment(summary.newest).format('YYYY-MM-DD HH:mm:ss')}`
+      : '';
+    printStatus(chalk.white(`   ${summary.org}: ${summary.totalLogs} logs${summary.truncated ? '+' : ''}, ${FileUtils.formatBytes(summary.totalBytes)}${range}`));
   });
+  printStatus(chalk.green(`   Total logs found: ${counted.reduce((sum, summary) => sum + summary.totalLogs, 0)}`));
+  if (counted.some(summary => summary.truncated)) {
+    printStatus(chalk.yellow(`   ⚠️  Orgs marked + have more logs than were fetched (use --all or --max)`));
+  }
+}
+
+/**
+ * Connect to a log source, then turn the command's --user option into user IDs
+ */
+async function connectToSource(source: LogSource, commandOptions?: any): Promise<void> {
+  if (source instanceof LocalLogSource) {
+    if (!await source.testConnection()) {
+      throw new NotFoundError(`Log directory not found: ${source.directory}`);
+    }
+    printStatus(chalk.gray(`📂 Reading downloaded logs from ${source.directory}`));
+  } else {
+    // Test connection first
+    printStatus(chalk.gray('Testing connection...'));
+    await verifySource(source);
+    printStatus(chalk.green('✅ Connected to Salesforce'));
+  }
+
+  await resolveUserFilter([source], commandOptions);
+}
+
+/**
+ * Look up the users named by --user (usernames, emails or names) and set their IDs as
+ * the command's userIds filter. Every term has to match at least one user.
+ */
+async function resolveUserFilter(sources: LogSource[], commandOptions?: any): Promise<void> {
+  if (!commandOptions?.user) {
+    return;
+  }
+
+  const terms: string[] = commandOptions.user.split(',').map((term: string) => term.trim()).filter(Boolean);
+  const found = (await Promise.all(sources.map(source => source.findUsers(terms)))).flat();
+  const matches = (term: string, user: SalesforceUser) =>
+    [user.Username, user.Email, user.Name].some(value => value?.toLowerCase() === term.toLowerCase());
+
+  const unmatched = terms.filter(term => !found.some(user => matches(term, user)));
+  if (unmatched.length > 0) {
+    throw new NotFoundError(`No user found for ${unmatched.map(term => `"${term}"`).join(', ')}`);
+  }
+
+  const users = [...new Map(found.map(user => [user.Id, user])).values()];
+  commandOptions.userIds = users.map(user => user.Id);
+  printStatus(chalk.gray(`👤 Users: ${users.map(user => `${user.Name} (${user.Username})`).join(', ')}`));
+}
+
+/**
+ * Check a source is reachable, throwing a typed error that says why when it isn't
+ */
+async function verifySource(source: LogSource): Promise<void> {
+  if (source instanceof SalesforceClient) {
+    await source.verifyConnection();
+  } else if (!await source.testConnection()) {
+    throw new SalesforceError('Failed to connect to Salesforce. Please check your credentials.');
+  }
+}
+
+/**
+ * The log's user as "Name (username)" when the name is known, otherwise the user ID
+ */
+function formatUser(log: DebugLog): string {
+  return log.LogUser ? `${log.LogUser.Name} (${log.LogUser.Username})` : log.LogUserId;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Print an error with a hint for the common failures, and exit with the code for its type
+ */
+function exitWithError(error: unknown): never {
+  console.error(chalk.red(`❌ Error: ${errorMessage(error)}`));
+
+  const targetOrg = program.opts().targetOrg;
+  if (error instanceof AuthExpiredError) {
+    console.error(chalk.red(targetOrg
+      ? `   The login stored for ${targetOrg} has expired. Refresh it with: sf org login web --alias ${targetOrg}`
+      : '   The session token has expired. Get a new one, or use --target-org or OAuth credentials so tokens are refreshed automatically'));
+  } else if (error instanceof PermissionDeniedError) {
+    console.error(chalk.red('   Reading debug logs needs the "View All Data" or "Manage Users" permission and API access'));
+  } else if (error instanceof NetworkError) {
+    console.error(chalk.red('   Check the instance URL and your network connection'));
+  }
+
+  process.exit(error instanceof SalesforceError ? error.exitCode : EXIT_CODES.ERROR);
+}
+
+const PROFILE_CREDENTIAL_OPTIONS: (keyof OrgProfile)[] = [
+  'instanceUrl', 'sessionToken', 'targetOrg', 'clientId', 'clientSecret', 'refreshToken', 'username', 'privateKey', 'loginUrl'
+];
+
+function applyOrgProfile(actionCommand: Command): OrgProfile | undefined {
+  const requested = program.opts().org;
+  const configPath = ProfileConfig.find();
+  if (!configPath) {
+    if (requested) {
+      throw new Error(`--org ${requested} needs a ${PROFILE_CONFIG_FILE} file in this project or your home directory`);
+    }
+    return undefined;
+  }
+
+  const config = ProfileConfig.load(configPath);
+  const name = requested || config.defaultProfileName;
+  if (!name) {
+    return undefined;
+  }
+  const profile = config.getProfile(name);
+
+  // Credentials come only from the profile unless given on the command line,
+  // so a token from .env can never be sent to the profile's org
+  PROFILE_CREDENTIAL_OPTIONS.forEach(key => {
+    if (program.getOptionValueSource(key) !== 'cli') {
+      program.setOptionValueWithSource(key, profile[key], 'config');
+    }
+  });
+  if (profile.apiVersion && program.getOptionValueSource('apiVersion') !== 'cli') {
+    program.setOptionValueWithSource('apiVersion', profile.apiVersion, 'config');
+  }
+
+  // Command defaults only replace built-in defaults, never explicit options
+  if (profile.maxResults && actionCommand.getOptionValueSource('maxResults') === 'default') {
+    actionCommand.setOptionValueWithSource('maxResults', String(profile.maxResults), 'config');
+  }
+  if (profile.outputDir && actionCommand.getOptionValueSource('outputDir') === 'default') {
+    actionCommand.setOptionValueWithSource('outputDir', profile.outputDir, 'config');
+  }
+  if (profile.excludeUsers && profile.excludeUsers.length > 0) {
+    actionCommand.setOptionValueWithSource('excludeUserIds', profile.excludeUsers, 'config');
+  }
+
+  console.error(chalk.gray(`Using org profile "${name}" from ${configPath}`));
+  return profile;
+}
 
 function createClient(options: any): SalesforceClient {
-  if (!options.instanceUrl || !options.sessionToken) {
+  if (options.targetOrg) {
+    return createClientForTargetOrg(options);
+  }
+
+  const auth = createOAuthConfig(options);
+  if (!options.instanceUrl || (!options.sessionToken && !auth)) {
     console.error(chalk.red('❌ Missing required configuration:'));
-    if (!options.instanceUrl) console.error(chalk.red('  - Instance URL (use --instance-url or SF_INSTANCE_URL env var)'));
-    if (!options.sessionToken) console.error(chalk.red('  - Session Token (use --session-token or SF_SESSION_TOKEN env var)'));
+    if (!options.instanceUrl) console.error(chalk.red('  - Instance URL (use --instance-url or SF_INSTANCE_URL env var), or a Salesforce CLI org (use --target-org)'));
+    if (!options.sessionToken && !auth) {
+      console.error(chalk.red('  - Session Token (use --session-token or SF_SESSION_TOKEN env var), or OAuth credentials:'));
+      console.error(chalk.red('      refresh token flow: --client-id and --refresh-token (SF_CLIENT_ID, SF_REFRESH_TOKEN)'));
+      console.error(chalk.red('      JWT bearer flow:    --client-id, --username and --private-key (SF_CLIENT_ID, SF_USERNAME, SF_PRIVATE_KEY_FILE)'));
+    }
     process.exit(1);
   }
 
-  return new SalesforceClient({
+  return trackApiUsage(new SalesforceClient({
     instanceUrl: options.instanceUrl,
     sessionToken: options.sessionToken,
-    apiVersion: options.apiVersion
+    apiVersion: options.apiVersion,
+    auth,
+    requestPolicy: createRequestPolicyOptions(options),
+    userNames: options.userNames,
+    logger: cliLogger
+  }, options.cache ? createBodyCache(options) : undefined, options.cache ? createUserCache(options) : undefined));
+}
+
+function createClientForTargetOrg(options: any): SalesforceClient {
+  let org: SfCliOrgAuth;
+  try {
+    org = new SfCliAuthStore().resolve(options.targetOrg);
+  } catch (error) {
+    exitWithError(error);
+  }
+
+  // The stored refresh token lets long searches outlive the stored access token
+  return trackApiUsage(new SalesforceClient({
+    instanceUrl: org.instanceUrl,
+    sessionToken: org.accessToken,
+    apiVersion: options.apiVersion,
+    auth: createOAuthConfig(options) || (org.refreshToken ? {
+      type: 'refreshToken',
+      clientId: org.clientId,
+      clientSecret: org.clientSecret,
+      refreshToken: org.refreshToken,
+      loginUrl: org.loginUrl
+    } : undefined),
+    requestPolicy: createRequestPolicyOptions(options),
+    userNames: options.userNames,
+    logger: cliLogger
+  }, options.cache ? createBodyCache(options) : undefined, options.cache ? createUserCache(options) : undefined));
+}
+
+function createRequestPolicyOptions(options: any): RequestPolicyOptions {
+  return {
+    maxRetries: parseInt(options.maxRetries),
+    maxApiUsagePercent: parseFloat(options.maxApiUsage)
+  };
+}
+
+// Clients created for this command, whose API calls are reported when the process exits
+const apiClients: SalesforceClient[] = [];
+
+function trackApiUsage(client: SalesforceClient): SalesforceClient {
+  if (apiClients.length === 0) {
+    // On exit, so commands that stop with an error report their calls too
+    process.once('exit', () => reportApiUsage());
+  }
+  apiClients.push(client);
+  return client;
+}
+
+function reportApiUsage(): void {
+  const stats = apiClients.map(client => ({ host: new URL(client.instanceUrl).host, ...client.apiStats }));
+  const requests = stats.reduce((sum, entry) => sum + entry.requests, 0);
+  if (requests === 0) {
+    return;
+  }
+
+  const retries = stats.reduce((sum, entry) => sum + entry.retries, 0);
+  const usage = stats
+    .filter(entry => entry.usage)
+    .map(entry => `${stats.length > 1 ? `${entry.host} ` : ''}${entry.usage!.used}/${entry.usage!.max} (${(entry.usage!.used / entry.usage!.max * 100).toFixed(1)}%)`);
+
+  printStatus(chalk.gray(
+    `📡 API calls used: ${requests}${retries > 0 ? ` (${retries} retries)` : ''}` +
+    (usage.length > 0 ? `; org daily usage: ${usage.join(', ')}` : '')
+  ));
+}
+
+function createOAuthConfig(options: any): OAuthConfig | undefined {
+  if (!options.clientId) {
+    return undefined;
+  }
+
+  if (options.refreshToken) {
+    return {
+      type: 'refreshToken',
+      clientId: options.clientId,
+      clientSecret: options.clientSecret,
+      refreshToken: options.refreshToken,
+      loginUrl: options.loginUrl
+    };
+  }
+
+  if (options.privateKey && options.username) {
+    let privateKey: string;
+    try {
+      privateKey = fs.readFileSync(options.privateKey, 'utf8');
+    } catch (error) {
+      console.error(chalk.red(`❌ Error: Failed to read private key ${options.privateKey}: ${error}`));
+      process.exit(1);
+    }
+    return {
+      type: 'jwt',
+      clientId: options.clientId,
+      username: options.username,
+      privateKey,
+      loginUrl: options.loginUrl
+    };
+  }
+
+  return undefined;
+}
+
+function createUserCache(options: any): UserCache {
+  return new UserCache({ directory: options.cacheDir });
+}
+
+function createBodyCache(options: any): LogBodyCache {
+  const maxMegabytes = parseFloat(options.cacheMaxSize);
+  if (!Number.isFinite(maxMegabytes) || maxMegabytes < 0) {
+    throw new Error(`Invalid cache size: ${options.cacheMaxSize}`);
+  }
+
+  return new LogBodyCache({
+    directory: options.cacheDir,
+    maxBytes: Math.round(maxMegabytes * 1024 * 1024)
+  });
+}
+
+function waitForEnterOrTimeout(prompt: string, timeoutMs: number, onInterrupt: () => void): Promise<'enter' | 'timeout'> {
+  const readline = require('readline');
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout
+  });
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      rl.close();
+      resolve('timeout');
+    }, timeoutMs);
+
+    // readline swallows Ctrl+C while it owns the terminal, so forward it
+    rl.on('SIGINT', () => {
+      clearTimeout(timer);
+      rl.close();
+      onInterrupt();
+    });
+
+    rl.question(prompt, () => {
+      clearTimeout(timer);
+      rl.close();
+      resolve('enter');
+    });
+  });
+}
+
+function resolveTraceTarget(options: any): { entityType: TracedEntityType; entity: string } {
+  const targets = [
+    options.userId ? { entityType: 'user' as const, entity: options.userId } : undefined,
+    options.class ? { entityType: 'class' as const, entity: options.class } : undefined,
+    options.trigger ? { entityType: 'trigger' as const, entity: options.trigger } : undefined
+  ].filter((target): target is { entityType: TracedEntityType; entity: string } => target !== undefined);
+
+  if (targets.length !== 1) {
+    throw new Error('Specify exactly one of --user-id, --class or --trigger');
+  }
+  return targets[0];
+}
+
+function addCategoryOptions(command: Command): Command {
+  DEBUG_LEVEL_CATEGORIES.forEach(category => {
+    command.option(`--${toKebabCase(category)} <level>`, `${category} level (${LOG_LEVELS.join(', ')})`);
+  });
+  return command;
+}
+
+function collectCategoryLevels(options: any): DebugLevelSettings {
+  const settings: DebugLevelSettings = {};
+  DEBUG_LEVEL_CATEGORIES.forEach(category => {
+    const optionName = category.charAt(0).toLowerCase() + category.slice(1);
+    if (options[optionName]) {
+      settings[category] = options[optionName];
+    }
+  });
+  return settings;
+}
+
+function toKebabCase(value: string): string {
+  return value.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+function printDebugLevel(level: DebugLevel): void {
+  printStatus(chalk.cyan(`🎚️  ${level.DeveloperName} (${level.Id})`));
+  printStatus(chalk.gray(`   ${DEBUG_LEVEL_CATEGORIES.filter(category => level[category]).map(category => `${category}=${level[category]}`).join(' ')}`));
+}
+
+function printMatches(matches: LogMatch[]): void {
+  matches.forEach((match, matchIndex) => {
+    printStatus(chalk.white(`\n   Match ${matchIndex + 1} (line ${match.lineNumber}):`));
+    printStatus(chalk.green(`   → ${highlightSpans(match.line, match.spans)}`));
+
+    const groups = match.spans?.filter(span => span.groups && span.groups.length > 0) || [];
+    groups.forEach(span => {
+      printStatus(chalk.gray(`     Groups: ${span.groups!.map((group, index) => `$${index + 1}=${group ?? ''}`).join(' ')}`));
+    });
+
+    if (match.context && match.context.length > 0) {
+      printStatus(chalk.gray('   Context:'));
+      match.context.forEach(contextLine => {
+        printStatus(chalk.gray(`     ${contextLine}`));
+      });
+    }
   });
 }
 
+function highlightSpans(line: string, spans?: MatchSpan[]): string {
+  if (!spans || spans.length === 0) {
+    return line;
+  }
+
+  // Spans from different terms can overlap, so highlight their union
+  let highlighted = '';
+  let position = 0;
+  spans.forEach(span => {
+    const start = Math.max(span.start, position);
+    if (span.end <= start) {
+      return;
+    }
+    highlighted += line.slice(position, start) + chalk.black.bgYellow(line.slice(start, span.end));
+    position = span.end;
+  });
+
+  return highlighted + line.slice(position);
+}
+
+function collectValues(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function collectMatchOptions(options: any): MatchOptions {
+  if (options.matchScope && !['line', 'log'].includes(options.matchScope)) {
+    throw new Error(`Invalid match scope: ${options.matchScope}. Use line or log`);
+  }
+
+  return {
+    caseSensitive: options.caseSensitive,
+    regex: options.regex,
+    wholeWord: options.word,
+    exclude: options.exclude,
+    boolean: options.boolean,
+    matchScope: options.matchScope
+  };
+}
+
+function buildLogQuery(options: any): ApexLogQuery {
+  return ApexLogQuery.fromFilters({
+    userId: options.userId,
+    userIds: options.userIds,
+    excludeUserIds: options.excludeUserIds,
+    dateFrom: formatDate(options.dateFrom),
+    dateTo: formatDate(options.dateTo),
+    where: options.where
+  });
+}
+
+function describeFilters(options: any): string {
+  return [
+    options.userId ? ` for user ${options.userId}` : '',
+    options.user ? ` for ${options.user}` : '',
+    options.excludeUserIds?.length ? ` excluding users ${options.excludeUserIds.join(', ')}` : '',
+    options.dateFrom ? ` from ${options.dateFrom}` : '',
+    options.dateTo ? ` to ${options.dateTo}` : '',
+    options.where ? ` where ${options.where}` : ''
+  ].join('');
+}
+
 function formatDate(dateInput?: string): string | undefined {
   if (!dateInput) return undefined;
   
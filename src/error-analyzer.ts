@@ -0,0 +1,164 @@
+import { LogParser } from './log-parser';
+import { DebugLog, ErrorGroup, ErrorOccurrence, LogEvent, LogScope, ParsedLog } from './types';
+
+export const ERROR_EVENT_TYPES = ['EXCEPTION_THROWN', 'FATAL_ERROR'];
+
+// Stack frames as written under FATAL_ERROR, e.g. "Class.AccountService.run: line 9, column 1"
+const STACK_FRAME_PATTERN = /^\s*((?:Class|Trigger|AnonymousBlock)\b.*?:\s*line \d+, column \d+)/;
+// 15/18 character Salesforce IDs (must contain a digit so plain words are left alone)
+const SALESFORCE_ID_PATTERN = /\b(?=[a-zA-Z0-9]*\d)[a-zA-Z0-9]{15}(?:[a-zA-Z0-9]{3})?\b/g;
+const NUMBER_PATTERN = /\d+/g;
+const MAX_SAMPLE_LOG_IDS = 5;
+
+/**
+ * Finds exceptions and fatal errors in debug logs and clusters them by a normalized signature
+ */
+export class ErrorAnalyzer {
+  /**
+   * Find every exception, fatal error and System.LimitException in a parsed log
+   */
+  static extract(log: DebugLog, parsed: ParsedLog): ErrorOccurrence[] {
+    const enclosingFrames = LogParser.mapEnclosingFrames(parsed);
+
+    const occurrences: ErrorOccurrence[] = [];
+    const thrown = new Set<string>();
+
+    parsed.events
+      .filter(event => ERROR_EVENT_TYPES.includes(event.type) || LogParser.eventText(event).includes('System.LimitException'))
+      .forEach(event => {
+        const text = event.fields.join('|');
+        const separator = text.indexOf(':');
+        const exceptionType = separator > 0 ? text.substring(0, separator).trim() : text.trim();
+        const message = separator > 0 ? text.substring(separator + 1).trim() : '';
+
+        // An unhandled exception is logged as EXCEPTION_THROWN and again as FATAL_ERROR; count it once
+        const key = `${exceptionType}|${message}`;
+        if (event.type === 'FATAL_ERROR' && thrown.has(key)) {
+          return;
+        }
+        if (event.type === 'EXCEPTION_THROWN') {
+          thrown.add(key);
+        }
+
+        const topFrame = this.findTopFrame(event, enclosingFrames.get(event.index));
+        occurrences.push({
+          log,
+          eventType: event.type,
+          exceptionType,
+          message,
+          topFrame,
+          signature: this.signature(exceptionType, topFrame),
+          logLine: event.logLine
+        });
+      });
+
+    return occurrences;
+  }
+
+  /**
+   * Parse a raw log body and find its errors
+   */
+  static analyze(log: DebugLog, body: string): ErrorOccurrence[] {
+    return this.extract(log, LogParser.parse(body));
+  }
+
+  /**
+   * Build a signature from the exception type and top stack frame with IDs and numbers stripped.
+   * Frames are reduced to `Class.method` so a frame taken from a stack trace
+   * (`Class.Foo.bar: line 9, column 1`) and one taken from the enclosing method (`Foo.bar()`) agree.
+   */
+  static signature(exceptionType: string, topFrame?: string): string {
+    const normalize = (value: string) => value
+      .replace(SALESFORCE_ID_PATTERN, '<id>')
+      .replace(NUMBER_PATTERN, '#');
+
+    return topFrame ? `${normalize(exceptionType)} @ ${normalize(this.normalizeFrame(topFrame))}` : normalize(exceptionType);
+  }
+
+  /**
+   * Group occurrences by signature, most frequent first
+   */
+  static cluster(occurrences: ErrorOccurrence[]): ErrorGroup[] {
+    const groups = new Map<string, ErrorGroup & { logIds: Set<string> }>();
+
+    occurrences.forEach(occurrence => {
+      const seenAt = occurrence.log.LastModifiedDate;
+      let group = groups.get(occurrence.signature);
+
+      if (!group) {
+        group = {
+          signature: occurrence.signature,
+          exceptionType: occurrence.exceptionType,
+          topFrame: occurrence.topFrame,
+          sampleMessage: occurrence.message,
+          count: 0,
+          logCount: 0,
+          firstSeen: seenAt,
+          lastSeen: seenAt,
+          users: [],
+          sampleLogIds: [],
+          logIds: new Set<string>()
+        };
+        groups.set(occurrence.signature, group);
+      }
+
+      group.count++;
+      // Log IDs are only unique within an org
+      const logKey = occurrence.org ? `${occurrence.org}|${occurrence.log.Id}` : occurrence.log.Id;
+      if (!group.logIds.has(logKey)) {
+        group.logIds.add(logKey);
+        group.logCount++;
+        if (group.sampleLogIds.length < MAX_SAMPLE_LOG_IDS) {
+          group.sampleLogIds.push(occurrence.log.Id);
+        }
+      }
+      if (!group.users.includes(occurrence.log.LogUserId)) {
+        group.users.push(occurrence.log.LogUserId);
+      }
+      if (occurrence.org) {
+        group.orgs = group.orgs || [];
+        if (!group.orgs.includes(occurrence.org)) {
+          group.orgs.push(occurrence.org);
+        }
+      }
+      if (new Date(seenAt) < new Date(group.firstSeen)) {
+        group.firstSeen = seenAt;
+      }
+      if (new Date(seenAt) > new Date(group.lastSeen)) {
+        group.lastSeen = seenAt;
+      }
+    });
+
+    return Array.from(groups.values())
+      .map(({ logIds, ...group }) => group)
+      .sort((a, b) => b.count - a.count);
+  }
+
+  private static normalizeFrame(frame: string): string {
+    return frame
+      .replace(/:\s*line \d+(, column \d+)?$/, '')
+      .replace(/^(Class|Trigger)\./, '')
+      .replace(/\(.*\)$/, '')
+      .replace(/^(\S+) on \S+ trigger event .*$/, '$1')
+      .replace(/^execute_anonymous_apex$/, 'AnonymousBlock')
+      .trim();
+  }
+
+  /**
+   * The top frame is the first line of the stack trace when the event carries one
+   * (FATAL_ERROR); otherwise it is the enclosing method or code unit plus the source line.
+   */
+  private static findTopFrame(event: LogEvent, scope?: LogScope): string | undefined {
+    for (const line of event.continuation) {
+      const match = STACK_FRAME_PATTERN.exec(line);
+      if (match) {
+        return match[1];
+      }
+    }
+
+    if (scope) {
+      return event.sourceLine !== undefined ? `${scope.name}: line ${event.sourceLine}` : scope.name;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,155 @@
+import axios from 'axios';
+
+/**
+ * Process exit codes of the CLI, so scripts can tell failures apart
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  ERROR: 1,
+  NO_MATCHES: 2,
+  INVALID_QUERY: 3,
+  AUTH_EXPIRED: 4,
+  PERMISSION_DENIED: 5,
+  NOT_FOUND: 6,
+  RATE_LIMITED: 7,
+  NETWORK: 8
+} as const;
+
+export interface ErrorDetails {
+  status?: number;
+  errorCode?: string;
+  cause?: unknown;
+}
+
+type SalesforceErrorClass = new (message: string, details?: ErrorDetails) => SalesforceError;
+
+const INVALID_QUERY_ERROR_CODES = ['MALFORMED_QUERY', 'INVALID_FIELD', 'INVALID_TYPE', 'INVALID_QUERY_FILTER_OPERATOR', 'INVALID_QUERY_LOCATOR'];
+
+/**
+ * Base class for the errors this library throws.
+ *
+ * Errors from Salesforce keep the HTTP status and the `errorCode` from the response
+ * body (e.g. INVALID_SESSION_ID), and the subclass says what kind of failure it is.
+ */
+export class SalesforceError extends Error {
+  readonly exitCode: number = EXIT_CODES.ERROR;
+  readonly status?: number;
+  readonly errorCode?: string;
+  readonly cause?: unknown;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.errorCode = details.errorCode;
+    this.cause = details.cause;
+  }
+
+  /**
+   * Describe a failed action, keeping what the underlying error says about why it failed.
+   * Axios errors are classified by status and Salesforce errorCode; errors that are
+   * already typed keep their type and get the action prepended to their message.
+   */
+  static from(error: unknown, action: string): SalesforceError {
+    if (error instanceof SalesforceError) {
+      const ErrorClass = error.constructor as SalesforceErrorClass;
+      return new ErrorClass(`${action}: ${error.message}`, { status: error.status, errorCode: error.errorCode, cause: error });
+    }
+
+    if (axios.isCancel(error)) {
+      return new AbortError(`${action}: aborted`, { cause: error });
+    }
+
+    if (axios.isAxiosError(error)) {
+      if (!error.response) {
+        return new NetworkError(`${action}: ${error.message}`, { errorCode: error.code, cause: error });
+      }
+
+      // REST API errors are a list of { errorCode, message }; OAuth errors are { error, error_description }
+      const { status, data } = error.response;
+      const body = Array.isArray(data) ? data[0] : data;
+      const errorCode: string | undefined = body?.errorCode ?? body?.error;
+      const message: string = body?.message ?? body?.error_description ?? error.message;
+
+      const ErrorClass = this.classify(status, errorCode);
+      return new ErrorClass(`${action}: ${errorCode ? `${errorCode}: ` : ''}${message}`, { status, errorCode, cause: error });
+    }
+
+    return new SalesforceError(`${action}: ${error instanceof Error ? error.message : error}`, { cause: error });
+  }
+
+  private static classify(status: number, errorCode?: string): SalesforceErrorClass {
+    if (status === 401 || errorCode === 'INVALID_SESSION_ID' || errorCode === 'invalid_grant') {
+      return AuthExpiredError;
+    }
+    if (status === 429 || errorCode === 'REQUEST_LIMIT_EXCEEDED') {
+      return RateLimitError;
+    }
+    if (status === 403) {
+      return PermissionDeniedError;
+    }
+    if (status === 404 || errorCode === 'NOT_FOUND') {
+      return NotFoundError;
+    }
+    if (errorCode && INVALID_QUERY_ERROR_CODES.includes(errorCode)) {
+      return InvalidQueryError;
+    }
+    return SalesforceError;
+  }
+}
+
+/**
+ * The session or access token has expired or was revoked
+ */
+export class AuthExpiredError extends SalesforceError {
+  readonly exitCode: number = EXIT_CODES.AUTH_EXPIRED;
+}
+
+/**
+ * The user lacks a permission, e.g. "View All Data" or API access
+ */
+export class PermissionDeniedError extends SalesforceError {
+  readonly exitCode: number = EXIT_CODES.PERMISSION_DENIED;
+}
+
+/**
+ * A log, record, org login or directory doesn't exist
+ */
+export class NotFoundError extends SalesforceError {
+  readonly exitCode: number = EXIT_CODES.NOT_FOUND;
+}
+
+/**
+ * Salesforce refused the request for exceeding a limit, or the API usage guard stopped it
+ */
+export class RateLimitError extends SalesforceError {
+  readonly exitCode: number = EXIT_CODES.RATE_LIMITED;
+}
+
+/**
+ * No response arrived: DNS failure, refused or reset connection, timeout
+ */
+export class NetworkError extends SalesforceError {
+  readonly exitCode: number = EXIT_CODES.NETWORK;
+}
+
+/**
+ * A search query, --where expression, ID or SOQL query is invalid
+ */
+export class InvalidQueryError extends SalesforceError {
+  readonly exitCode: number = EXIT_CODES.INVALID_QUERY;
+}
+
+/**
+ * The operation was cancelled through its AbortSignal
+ */
+export class AbortError extends SalesforceError {
+  /**
+   * Stop between steps of a long-running operation once the signal is aborted
+   */
+  static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new AbortError('The operation was aborted', { cause: signal.reason });
+    }
+  }
+}
@@ -1,7 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import moment from 'moment';
-import { DebugLog } from './types';
+import { CaptureSummary, DebugLog, NamespaceLimits, SyncManifest } from './types';
 
 /**
  * Utility functions for file operations and naming
@@ -21,10 +22,10 @@ export class FileUtils {
    */
   static generateLogFileName(log: DebugLog, extension: string = '.log'): string {
     const timestamp = moment(log.LastModifiedDate).format('YYYY-MM-DD_HH-mm-ss');
-    const operation = log.Operation.replace(/[^a-zA-Z0-9]/g, '_');
-    const logId = log.Id.substring(0, 8); // Use first 8 chars of ID for uniqueness
-    
-    return `${timestamp}_${operation}_${logId}${extension}`;
+    const operation = log.Operation.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 60);
+
+    // The full ID keeps names unique; IDs from one org share long prefixes like 07L5g00000
+    return `${timestamp}_${operation}_${log.Id}${extension}`;
   }
 
   /**
@@ -52,13 +53,16 @@ export class FileUtils {
   /**
    * Save log metadata to JSON file
    */
-  static async saveMetadataToFile(filePath: string, log: DebugLog, matches?: any[]): Promise<void> {
+  static async saveMetadataToFile(filePath: string, log: DebugLog, matches?: any[], limits?: NamespaceLimits[]): Promise<void> {
     const metadata = {
       log: {
         id: log.Id,
         userId: log.LogUserId,
+        userName: log.LogUser?.Name,
+        username: log.LogUser?.Username,
         lastModified: log.LastModifiedDate,
         operation: log.Operation,
+        request: log.Request,
         application: log.Application,
         status: log.Status,
         duration: log.DurationMilliseconds,
@@ -67,7 +71,8 @@ export class FileUtils {
         logLength: log.LogLength
       },
       downloadedAt: new Date().toISOString(),
-      matches: matches || []
+      matches: matches || [],
+      limits: limits || []
     };
 
     return new Promise((resolve, reject) => {
@@ -81,6 +86,41 @@ export class FileUtils {
     });
   }
 
+  /**
+   * Read the log record back from a metadata file written by saveMetadataToFile.
+   * Returns undefined if the file is missing or isn't a log metadata file.
+   */
+  static readMetadataFromFile(filePath: string): DebugLog | undefined {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      const metadata = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      const log = metadata?.log;
+      if (!log?.id) {
+        return undefined;
+      }
+
+      return {
+        Id: log.id,
+        LogUserId: log.userId || '',
+        LogLength: log.logLength || 0,
+        LastModifiedDate: log.lastModified,
+        Request: log.request || '',
+        Operation: log.operation || '',
+        Application: log.application || '',
+        Status: log.status || '',
+        DurationMilliseconds: log.duration || 0,
+        StartTime: log.startTime || log.lastModified,
+        Location: log.location || '',
+        ...(log.username ? { LogUser: { Name: log.userName || '', Username: log.username } } : {})
+      };
+    } catch (error) {
+      throw new Error(`Failed to read metadata from ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   /**
    * Create a summary file for the download session
    */
@@ -115,6 +155,66 @@ export class FileUtils {
     });
   }
 
+  /**
+   * Save the summary of a capture session
+   */
+  static async createCaptureSummary(summaryPath: string, summary: CaptureSummary): Promise<void> {
+    return new Promise((resolve, reject) => {
+      fs.writeFile(summaryPath, JSON.stringify(summary, null, 2), 'utf8', (err) => {
+        if (err) {
+          reject(new Error(`Failed to save capture summary: ${err.message}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * SHA-256 checksum of file content
+   */
+  static checksum(content: string): string {
+    return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+  }
+
+  /**
+   * Checksum of a file on disk, or undefined if it doesn't exist
+   */
+  static fileChecksum(filePath: string): string | undefined {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    return this.checksum(fs.readFileSync(filePath, 'utf8'));
+  }
+
+  /**
+   * Load a sync manifest, or start a new one if the directory hasn't been synced yet
+   */
+  static loadSyncManifest(manifestPath: string, instanceUrl: string): SyncManifest {
+    if (!fs.existsSync(manifestPath)) {
+      return { version: 1, instanceUrl, logs: {} };
+    }
+
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as SyncManifest;
+      if (manifest.instanceUrl && manifest.instanceUrl !== instanceUrl) {
+        throw new Error(`directory is synced from ${manifest.instanceUrl}, not ${instanceUrl}`);
+      }
+      return { ...manifest, logs: manifest.logs || {} };
+    } catch (error) {
+      throw new Error(`Failed to load sync manifest ${manifestPath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Save a sync manifest atomically, so an interrupted run never leaves it half written
+   */
+  static saveSyncManifest(manifestPath: string, manifest: SyncManifest): void {
+    const tempPath = `${manifestPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(manifest, null, 2), 'utf8');
+    fs.renameSync(tempPath, manifestPath);
+  }
+
   /**
    * Get available disk space (approximate check)
    */
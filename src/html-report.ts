@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import moment from 'moment';
+import { FileUtils } from './file-utils';
+import { HtmlReportData, LogMatch, MatchSpan, SearchResult } from './types';
+
+const MAX_MATCHES_PER_LOG = 50;
+const MAX_OPERATIONS_CHARTED = 10;
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+
+/**
+ * Renders search results as a single HTML file with no external assets:
+ * styles, the table sorting script and the SVG charts are all inline,
+ * so the report opens offline and can be attached to a ticket as-is.
+ */
+export class HtmlReport {
+  /**
+   * Render the report and write it to a file
+   */
+  static async save(reportPath: string, data: HtmlReportData): Promise<void> {
+    try {
+      await fs.promises.writeFile(reportPath, this.render(data), 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to save HTML report to ${reportPath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Render the full report document
+   */
+  static render(data: HtmlReportData): string {
+    const results = data.results;
+    const totalMatches = results.reduce((sum, result) => sum + result.matches.length, 0);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escape(data.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${this.escape(data.title)}</h1>
+<p class="meta">Search term <code>${this.escape(data.searchText)}</code> &middot; generated ${this.escape(moment(data.generatedAt).format('YYYY-MM-DD HH:mm:ss'))}</p>
+<div class="stats">
+  ${this.stat('Logs searched', data.totalLogsSearched)}
+  ${this.stat('Logs with matches', results.length)}
+  ${this.stat('Matching lines', totalMatches)}
+  ${data.download ? this.stat('Downloaded', `${data.download.downloadedLogs} to ${data.download.downloadPath}`) : ''}
+</div>
+${results.length > 0 ? `<div class="charts">
+  <figure><figcaption>Matching logs over time</figcaption>${this.volumeChart(results)}</figure>
+  <figure><figcaption>Matching logs by operation</figcaption>${this.operationChart(results)}</figure>
+</div>` : ''}
+<h2>Matching logs</h2>
+${results.length > 0 ? this.resultsTable(results) : '<p>No matches found.</p>'}
+<h2>Matches</h2>
+${results.map(result => this.matchDetails(result)).join('\n')}
+<script>${SORT_SCRIPT}</script>
+</body>
+</html>
+`;
+  }
+
+  private static anchor(logId: string, org?: string): string {
+    return this.escape(org ? `log-${org}-${logId}` : `log-${logId}`);
+  }
+
+  private static stat(label: string, value: string | number): string {
+    return `<div class="stat"><span class="value">${this.escape(String(value))}</span><span class="label">${this.escape(label)}</span></div>`;
+  }
+
+  private static resultsTable(results: SearchResult[]): string {
+    const multiOrg = results.some(result => result.org);
+    const rows = results.map(({ log, matches, org }) => `<tr>
+${multiOrg ? `  <td>${this.escape(org || '')}</td>\n` : ''}  <td data-sort="${Date.parse(log.LastModifiedDate) || 0}">${this.escape(moment(log.LastModifiedDate).format('YYYY-MM-DD HH:mm:ss'))}</td>
+  <td><a href="#${this.anchor(log.Id, org)}">${this.escape(log.Id)}</a></td>
+  <td title="${this.escape(log.LogUserId)}">${this.escape(log.LogUser?.Name || log.LogUserId)}</td>
+  <td>${this.escape(log.Operation)}</td>
+  <td>${this.escape(log.Status)}</td>
+  <td class="num" data-sort="${log.DurationMilliseconds}">${log.DurationMilliseconds} ms</td>
+  <td class="num" data-sort="${log.LogLength}">${this.escape(FileUtils.formatBytes(log.LogLength))}</td>
+  <td class="num" data-sort="${matches.length}">${matches.length}</td>
+</tr>`).join('\n');
+
+    const headers = [...(multiOrg ? ['Org'] : []), 'Date', 'Log ID', 'User', 'Operation', 'Status', 'Duration', 'Size', 'Matches'];
+    return `<table class="sortable">
+<thead><tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+  }
+
+  private static matchDetails({ log, matches, org }: SearchResult): string {
+    const shown = matches.slice(0, MAX_MATCHES_PER_LOG);
+    const hidden = matches.length - shown.length;
+
+    return `<details id="${this.anchor(log.Id, org)}">
+<summary>${org ? `${this.escape(org)} &middot; ` : ''}<strong>${this.escape(log.Id)}</strong> &middot; ${this.escape(log.Operation)} &middot; ${matches.length} match${matches.length === 1 ? '' : 'es'}</summary>
+${shown.map(match => this.snippet(match)).join('\n')}
+${hidden > 0 ? `<p class="meta">${hidden} more matches not shown</p>` : ''}
+</details>`;
+  }
+
+  /**
+   * The matched line between its context lines, with the matched text marked
+   */
+  private static snippet(match: LogMatch): string {
+    const context = (match.context || []).map(line => {
+      const separator = line.indexOf(': ');
+      return { lineNumber: parseInt(line.substring(0, separator), 10), text: line.substring(separator + 2) };
+    });
+
+    const line = (lineNumber: number, html: string, className: string) =>
+      `<div class="${className}"><span class="ln">${lineNumber}</span>${html}</div>`;
+
+    return `<pre class="snippet">${[
+      ...context.filter(entry => entry.lineNumber < match.lineNumber).map(entry => line(entry.lineNumber, this.escape(entry.text), 'ctx')),
+      line(match.lineNumber, this.highlight(match.line, match.spans), 'hit'),
+      ...context.filter(entry => entry.lineNumber > match.lineNumber).map(entry => line(entry.lineNumber, this.escape(entry.text), 'ctx'))
+    ].join('')}</pre>`;
+  }
+
+  private static highlight(text: string, spans?: MatchSpan[]): string {
+    if (!spans || spans.length === 0) {
+      return this.escape(text);
+    }
+
+    let html = '';
+    let position = 0;
+    spans.forEach(span => {
+      const start = Math.max(span.start, position);
+      if (span.end <= start) {
+        return;
+      }
+      html += this.escape(text.slice(position, start)) + `<mark>${this.escape(text.slice(start, span.end))}</mark>`;
+      position = span.end;
+    });
+
+    return html + this.escape(text.slice(position));
+  }
+
+  /**
+   * Column chart of matching logs per hour, day or month, depending on the time span
+   */
+  private static volumeChart(results: SearchResult[]): string {
+    const times = results.map(result => Date.parse(result.log.LastModifiedDate)).filter(Number.isFinite);
+    if (times.length === 0) {
+      return '';
+    }
+
+    const first = Math.min(...times);
+    const last = Math.max(...times);
+    const days = (last - first) / (24 * 60 * 60 * 1000);
+    const unit = days <= 2 ? 'hour' : days <= 90 ? 'day' : 'month';
+    const format = unit === 'hour' ? 'MM-DD HH:00' : unit === 'day' ? 'YYYY-MM-DD' : 'YYYY-MM';
+
+    const buckets: { label: string, count: number }[] = [];
+    const cursor = moment(first).startOf(unit);
+    while (cursor.valueOf() <= last) {
+      const start = cursor.valueOf();
+      const end = cursor.clone().add(1, unit).valueOf();
+      buckets.push({ label: cursor.format(format), count: times.filter(time => time >= start && time < end).length });
+      cursor.add(1, unit);
+    }
+
+    return this.columnChart(buckets);
+  }
+
+  private static operationChart(results: SearchResult[]): string {
+    const counts = new Map<string, number>();
+    results.forEach(({ log }) => counts.set(log.Operation, (counts.get(log.Operation) || 0) + 1));
+
+    const bars = Array.from(counts.entries())
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, MAX_OPERATIONS_CHARTED)
+      .map(([label, count]) => ({ label, count }));
+
+    return this.barChart(bars);
+  }
+
+  private static columnChart(buckets: { label: string, count: number }[]): string {
+    const max = Math.max(...buckets.map(bucket => bucket.count), 1);
+    const plotHeight = CHART_HEIGHT - 40;
+    const slot = CHART_WIDTH / buckets.length;
+    const labelEvery = Math.ceil(buckets.length / 8);
+
+    const columns = buckets.map((bucket, index) => {
+      const height = (bucket.count / max) * plotHeight;
+      const x = index * slot;
+      return `<rect x="${(x + slot * 0.1).toFixed(1)}" y="${(plotHeight - height + 10).toFixed(1)}" width="${(slot * 0.8).toFixed(1)}" height="${height.toFixed(1)}"><title>${this.escape(bucket.label)}: ${bucket.count}</title></rect>` +
+        (index % labelEvery === 0 ? `<text x="${(x + slot / 2).toFixed(1)}" y="${CHART_HEIGHT - 8}" text-anchor="middle">${this.escape(bucket.label)}</text>` : '');
+    });
+
+    return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img">${columns.join('')}</svg>`;
+  }
+
+  private static barChart(bars: { label: string, count: number }[]): string {
+    const max = Math.max(...bars.map(bar => bar.count), 1);
+    const rowHeight = 22;
+    const labelWidth = 240;
+    const plotWidth = CHART_WIDTH - labelWidth - 40;
+
+    const rows = bars.map((bar, index) => {
+      const y = index * rowHeight;
+      const width = (bar.count / max) * plotWidth;
+      const label = bar.label.length > 36 ? `${bar.label.substring(0, 35)}…` : bar.label;
+      return `<text x="${labelWidth - 6}" y="${y + 15}" text-anchor="end">${this.escape(label)}</text>` +
+        `<rect x="${labelWidth}" y="${y + 3}" width="${width.toFixed(1)}" height="${rowHeight - 6}"><title>${this.escape(bar.label)}: ${bar.count}</title></rect>` +
+        `<text x="${(labelWidth + width + 4).toFixed(1)}" y="${y + 15}">${bar.count}</text>`;
+    });
+
+    return `<svg viewBox="0 0 ${CHART_WIDTH} ${Math.max(bars.length * rowHeight, rowHeight)}" role="img">${rows.join('')}</svg>`;
+  }
+
+  private static escape(text: string): string {
+    return String(text ?? '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
+
+const STYLES = `
+body { font: 14px/1.45 -apple-system, "Segoe UI", Roboto, Helvetica, Arial, sans-serif; margin: 24px; color: #1f2328; }
+h1 { margin-bottom: 4px; }
+.meta { color: #656d76; }
+code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+.stats { display: flex; gap: 16px; flex-wrap: wrap; margin: 16px 0; }
+.stat { border: 1px solid #d0d7de; border-radius: 6px; padding: 8px 14px; }
+.stat .value { display: block; font-size: 20px; font-weight: 600; }
+.stat .label { color: #656d76; font-size: 12px; }
+.charts { display: flex; gap: 24px; flex-wrap: wrap; }
+figure { margin: 0; flex: 1 1 480px; }
+figcaption { font-weight: 600; margin-bottom: 6px; }
+svg { width: 100%; height: auto; font-size: 11px; }
+svg rect { fill: #0969da; }
+svg text { fill: #424a53; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border-bottom: 1px solid #d0d7de; padding: 6px 8px; text-align: left; }
+th { cursor: pointer; background: #f6f8fa; user-select: none; }
+th.asc::after { content: " \\25B2"; }
+th.desc::after { content: " \\25BC"; }
+td.num { text-align: right; }
+details { border: 1px solid #d0d7de; border-radius: 6px; margin: 8px 0; padding: 6px 10px; }
+summary { cursor: pointer; }
+pre.snippet { background: #f6f8fa; padding: 8px; overflow-x: auto; margin: 8px 0; }
+pre.snippet .ctx { color: #656d76; }
+pre.snippet .hit { background: #fff8c5; }
+pre.snippet .ln { display: inline-block; min-width: 4em; color: #8c959f; user-select: none; }
+mark { background: #ffd33d; }
+`;
+
+// Sorts by a cell's data-sort value when present, otherwise by its text
+const SORT_SCRIPT = `
+document.querySelectorAll('table.sortable th').forEach(function (th, column) {
+  th.addEventListener('click', function () {
+    var table = th.closest('table');
+    var tbody = table.tBodies[0];
+    var ascending = !th.classList.contains('asc');
+    table.querySelectorAll('th').forEach(function (other) { other.classList.remove('asc', 'desc'); });
+    th.classList.add(ascending ? 'asc' : 'desc');
+    var key = function (row) {
+      var cell = row.cells[column];
+      var value = cell.getAttribute('data-sort');
+      return value !== null ? parseFloat(value) : cell.textContent.toLowerCase();
+    };
+    Array.from(tbody.rows)
+      .sort(function (a, b) {
+        var x = key(a), y = key(b);
+        return (x < y ? -1 : x > y ? 1 : 0) * (ascending ? 1 : -1);
+      })
+      .forEach(function (row) { tbody.appendChild(row); });
+  });
+});
+`;
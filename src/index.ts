@@ -2,9 +2,47 @@
 export { SalesforceClient } from './salesforce-client';
 export { LogSearcher } from './log-search';
 export { FileUtils } from './file-utils';
+export { ApexLogQuery, escapeSoqlString } from './apex-log-query';
+export { LogParser } from './log-parser';
+export { LimitAnalyzer } from './limit-analyzer';
+export { ErrorAnalyzer } from './error-analyzer';
+export { SoqlAnalyzer } from './soql-analyzer';
+export { TraceFlagManager } from './trace-flag-manager';
+export { CaptureSession } from './capture-session';
+export { LogSync } from './log-sync';
+export { TextMatcher } from './text-matcher';
+export { LogBodyCache } from './log-body-cache';
+export { UserCache } from './user-cache';
+export { LocalLogSource } from './log-source';
+export { OutputFormatter } from './output-formatter';
+export { HtmlReport } from './html-report';
+export { OAuthTokenProvider } from './oauth';
+export { SfCliAuthStore } from './sf-cli-auth';
+export { ProfileConfig } from './profile-config';
+export { RequestPolicy } from './request-policy';
+export { SalesforceError, AuthExpiredError, PermissionDeniedError, NotFoundError, RateLimitError, NetworkError, InvalidQueryError, AbortError } from './errors';
 export * from './types';
 
 // Re-export everything for convenience
 export * from './salesforce-client';
 export * from './log-search';
 export * from './file-utils';
+export * from './apex-log-query';
+export * from './log-parser';
+export * from './limit-analyzer';
+export * from './error-analyzer';
+export * from './soql-analyzer';
+export * from './trace-flag-manager';
+export * from './capture-session';
+export * from './log-sync';
+export * from './text-matcher';
+export * from './log-body-cache';
+export * from './user-cache';
+export * from './log-source';
+export * from './output-formatter';
+export * from './html-report';
+export * from './oauth';
+export * from './sf-cli-auth';
+export * from './profile-config';
+export * from './request-policy';
+export * from './errors';
@@ -0,0 +1,110 @@
+import { LogParser } from './log-parser';
+import { DebugLog, GovernorLimitName, LimitUsage, LogLimitReport, NamespaceLimits, ParsedLog } from './types';
+
+/**
+ * Labels Salesforce writes in LIMIT_USAGE_FOR_NS blocks, mapped to our limit names
+ */
+export const GOVERNOR_LIMIT_LABELS: Record<string, GovernorLimitName> = {
+  'Number of SOQL queries': 'soqlQueries',
+  'Number of query rows': 'queryRows',
+  'Number of DML statements': 'dmlStatements',
+  'Number of DML rows': 'dmlRows',
+  'Maximum CPU time': 'cpuTime',
+  'Maximum heap size': 'heapSize',
+  'Number of callouts': 'callouts'
+};
+
+export const GOVERNOR_LIMIT_NAMES = Object.values(GOVERNOR_LIMIT_LABELS);
+
+// e.g. "  Number of SOQL queries: 2 out of 100 ******* CLOSE TO LIMIT"
+const LIMIT_LINE_PATTERN = /^\s*(.+?):\s*(\d+)\s+out of\s+(\d+)/;
+
+/**
+ * Extracts governor limit usage from LIMIT_USAGE_FOR_NS blocks
+ */
+export class LimitAnalyzer {
+  /**
+   * Extract per-namespace limit usage from a parsed log.
+   * A log can contain several limit blocks (one per code unit or transaction);
+   * the highest usage seen for each namespace and limit wins.
+   */
+  static extract(parsed: ParsedLog): NamespaceLimits[] {
+    const byNamespace = new Map<string, NamespaceLimits>();
+
+    LogParser.eventsOfType(parsed, 'LIMIT_USAGE_FOR_NS').forEach(event => {
+      const namespace = (event.fields[0] || '(default)').trim();
+      const entry = byNamespace.get(namespace) || { namespace, limits: {}, all: {} };
+      byNamespace.set(namespace, entry);
+
+      event.continuation.forEach(line => {
+        const match = LIMIT_LINE_PATTERN.exec(line);
+        if (!match) {
+          return;
+        }
+
+        const label = match[1].trim();
+        const usage = this.toUsage(parseInt(match[2], 10), parseInt(match[3], 10));
+        const existing = entry.all[label];
+        if (existing && existing.used >= usage.used) {
+          return;
+        }
+
+        entry.all[label] = usage;
+        const limitName = GOVERNOR_LIMIT_LABELS[label];
+        if (limitName) {
+          entry.limits[limitName] = usage;
+        }
+      });
+    });
+
+    return Array.from(byNamespace.values());
+  }
+
+  /**
+   * Parse a raw log body and build its limit report
+   */
+  static analyze(log: DebugLog, body: string): LogLimitReport {
+    const namespaces = this.extract(LogParser.parse(body));
+    return { log, namespaces, peak: this.findPeak(namespaces) };
+  }
+
+  /**
+   * Highest percent used of one limit across all namespaces in a report
+   */
+  static percentUsed(report: LogLimitReport, limit: GovernorLimitName): number {
+    return report.namespaces.reduce((max, ns) => Math.max(max, ns.limits[limit]?.percent || 0), 0);
+  }
+
+  /**
+   * Sort reports by percent used, highest first.
+   * Without a limit name, reports are ranked by their peak usage of any limit.
+   */
+  static rank(reports: LogLimitReport[], limit?: GovernorLimitName): LogLimitReport[] {
+    const score = (report: LogLimitReport) =>
+      limit ? this.percentUsed(report, limit) : report.peak?.usage.percent || 0;
+
+    return [...reports].sort((a, b) => score(b) - score(a));
+  }
+
+  private static findPeak(namespaces: NamespaceLimits[]): LogLimitReport['peak'] {
+    let peak: LogLimitReport['peak'];
+
+    namespaces.forEach(ns => {
+      (Object.entries(ns.limits) as [GovernorLimitName, LimitUsage][]).forEach(([limit, usage]) => {
+        if (!peak || usage.percent > peak.usage.percent) {
+          peak = { limit, namespace: ns.namespace, usage };
+        }
+      });
+    });
+
+    return peak;
+  }
+
+  private static toUsage(used: number, max: number): LimitUsage {
+    return {
+      used,
+      max,
+      percent: max > 0 ? Math.round((used / max) * 10000) / 100 : 0
+    };
+  }
+}
@@ -0,0 +1,323 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileUtils } from './file-utils';
+import { LogBodyCacheIndex, LogBodyCacheOptions, LogBodyCacheStats } from './types';
+
+export const DEFAULT_CACHE_DIR = path.join(os.homedir(), '.sf-debug-search', 'cache');
+export const DEFAULT_CACHE_MAX_BYTES = 500 * 1024 * 1024;
+
+const INDEX_FILE = 'index.json';
+// Save the index after this many new bodies, so an interrupted run loses few entries
+const INDEX_FLUSH_INTERVAL = 20;
+// Eviction leaves unindexed bodies this recent alone; another run may be about to index them
+const ORPHAN_MIN_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * On-disk cache of ApexLog bodies, which never change once written.
+ *
+ * Bodies are stored content-addressed under `bodies/<sha256>`, and an index maps
+ * `<org>|<logId>` keys to them. When the cache grows past its size cap, the least
+ * recently used entries are evicted first.
+ */
+export class LogBodyCache {
+  readonly directory: string;
+  readonly maxBytes: number;
+  private index?: LogBodyCacheIndex;
+  private totalBytes = 0;
+  private unsavedSets = 0;
+  private dirty = false;
+  private flushOnExit = false;
+
+  constructor(options: LogBodyCacheOptions = {}) {
+    this.directory = options.directory || DEFAULT_CACHE_DIR;
+    this.maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+  }
+
+  /**
+   * Get a cached body, or undefined on a miss
+   */
+  get(instanceUrl: string, logId: string): string | undefined {
+    const index = this.loadIndex();
+    const key = LogBodyCache.key(instanceUrl, logId);
+    const entry = index.entries[key];
+
+    let body: string | undefined;
+    if (entry) {
+      try {
+        body = fs.readFileSync(this.bodyPath(entry.sha256), 'utf8');
+      } catch {
+        // The body file was removed behind our back; forget the entry
+        delete index.entries[key];
+        this.totalBytes -= entry.size;
+      }
+    }
+
+    if (body === undefined) {
+      index.misses++;
+    } else {
+      index.hits++;
+      entry.lastAccessedAt = new Date().toISOString();
+    }
+    this.markDirty();
+
+    return body;
+  }
+
+  /**
+   * Store a body, evicting least recently used entries if the cache is over its size cap
+   */
+  set(instanceUrl: string, logId: string, body: string): void {
+    const size = Buffer.byteLength(body, 'utf8');
+    if (size > this.maxBytes) {
+      return;
+    }
+
+    const index = this.loadIndex();
+    const sha256 = FileUtils.checksum(body);
+    const bodyPath = this.bodyPath(sha256);
+
+    if (!fs.existsSync(bodyPath)) {
+      FileUtils.ensureDirectoryExists(path.dirname(bodyPath));
+      const tempPath = `${bodyPath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, body, 'utf8');
+      fs.renameSync(tempPath, bodyPath);
+    }
+
+    const key = LogBodyCache.key(instanceUrl, logId);
+    const now = new Date().toISOString();
+    this.totalBytes += size - (index.entries[key]?.size || 0);
+    index.entries[key] = { sha256, size, cachedAt: now, lastAccessedAt: now };
+
+    this.evict();
+    this.markDirty();
+    if (++this.unsavedSets >= INDEX_FLUSH_INTERVAL) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Drop one log from the cache, e.g. after it was deleted from the org
+   */
+  delete(instanceUrl: string, logId: string): void {
+    const index = this.loadIndex();
+    const key = LogBodyCache.key(instanceUrl, logId);
+    const entry = index.entries[key];
+    if (!entry) {
+      return;
+    }
+
+    delete index.entries[key];
+    this.totalBytes -= entry.size;
+    this.removeUnusedBodies([entry.sha256]);
+    this.markDirty();
+  }
+
+  /**
+   * Remove all cached bodies, or only those of one org. Body files no index entry
+   * refers to, left behind by an interrupted run, are removed either way.
+   */
+  clear(instanceUrl?: string): { entries: number, bytes: number } {
+    const index = this.loadIndex();
+    const prefix = instanceUrl ? `${LogBodyCache.orgKey(instanceUrl)}|` : '';
+    let entries = 0;
+    let bytes = 0;
+    const removed: string[] = [];
+
+    Object.entries(index.entries)
+      .filter(([key]) => key.startsWith(prefix))
+      .forEach(([key, entry]) => {
+        delete index.entries[key];
+        removed.push(entry.sha256);
+        entries++;
+        bytes += entry.size;
+      });
+    this.removeUnusedBodies(removed);
+    this.totalBytes -= bytes;
+    bytes += this.sweepUnindexedBodies(0);
+
+    if (!instanceUrl) {
+      index.hits = 0;
+      index.misses = 0;
+    }
+
+    this.dirty = true;
+    this.flush();
+    return { entries, bytes };
+  }
+
+  /**
+   * Size, hit rate and per-org breakdown of the cache
+   */
+  stats(): LogBodyCacheStats {
+    const index = this.loadIndex();
+    const stats: LogBodyCacheStats = {
+      directory: this.directory,
+      entries: 0,
+      totalBytes: 0,
+      maxBytes: this.maxBytes,
+      hits: index.hits,
+      misses: index.misses,
+      orgs: {}
+    };
+
+    Object.entries(index.entries).forEach(([key, entry]) => {
+      const org = key.slice(0, key.lastIndexOf('|'));
+      const orgStats = stats.orgs[org] || { entries: 0, bytes: 0 };
+      orgStats.entries++;
+      orgStats.bytes += entry.size;
+      stats.orgs[org] = orgStats;
+
+      stats.entries++;
+      stats.totalBytes += entry.size;
+      if (!stats.oldestAccessAt || entry.lastAccessedAt < stats.oldestAccessAt) {
+        stats.oldestAccessAt = entry.lastAccessedAt;
+      }
+      if (!stats.newestAccessAt || entry.lastAccessedAt > stats.newestAccessAt) {
+        stats.newestAccessAt = entry.lastAccessedAt;
+      }
+    });
+
+    return stats;
+  }
+
+  /**
+   * Write pending index changes (access times, hit counters) to disk
+   */
+  flush(): void {
+    if (!this.index || !this.dirty) {
+      return;
+    }
+
+    FileUtils.ensureDirectoryExists(this.directory);
+    const indexPath = path.join(this.directory, INDEX_FILE);
+    const tempPath = `${indexPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.index), 'utf8');
+    fs.renameSync(tempPath, indexPath);
+    this.dirty = false;
+    this.unsavedSets = 0;
+  }
+
+  private evict(): void {
+    if (this.totalBytes <= this.maxBytes) {
+      return;
+    }
+
+    const index = this.loadIndex();
+    const entries = Object.entries(index.entries);
+    const removed: string[] = [];
+
+    entries.sort(([, a], [, b]) => a.lastAccessedAt.localeCompare(b.lastAccessedAt));
+    for (const [key, entry] of entries) {
+      if (this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      delete index.entries[key];
+      removed.push(entry.sha256);
+      this.totalBytes -= entry.size;
+    }
+    this.removeUnusedBodies(removed);
+    this.sweepUnindexedBodies(ORPHAN_MIN_AGE_MS);
+    this.dirty = true;
+  }
+
+  /**
+   * Delete the body files of removed entries, unless another entry shares the same content
+   */
+  private removeUnusedBodies(sha256s: string[]): void {
+    if (sha256s.length === 0) {
+      return;
+    }
+
+    const used = new Set(Object.values(this.loadIndex().entries).map(entry => entry.sha256));
+    new Set(sha256s).forEach(sha256 => {
+      if (!used.has(sha256)) {
+        fs.rmSync(this.bodyPath(sha256), { force: true });
+      }
+    });
+  }
+
+  /**
+   * Delete body files (and leftover temp files) under `bodies/` that no index entry refers to,
+   * e.g. from a run that was killed before it saved the index. Returns the bytes freed.
+   */
+  private sweepUnindexedBodies(minAgeMs: number): number {
+    const bodiesDir = path.join(this.directory, 'bodies');
+    if (!fs.existsSync(bodiesDir)) {
+      return 0;
+    }
+
+    const used = new Set(Object.values(this.loadIndex().entries).map(entry => entry.sha256));
+    const now = Date.now();
+    let bytes = 0;
+
+    fs.readdirSync(bodiesDir).forEach(prefix => {
+      const prefixDir = path.join(bodiesDir, prefix);
+      if (!fs.statSync(prefixDir).isDirectory()) {
+        return;
+      }
+      fs.readdirSync(prefixDir)
+        .filter(file => !used.has(file))
+        .forEach(file => {
+          const filePath = path.join(prefixDir, file);
+          const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+          if (stats && now - stats.mtimeMs >= minAgeMs) {
+            fs.rmSync(filePath, { force: true });
+            bytes += stats.size;
+          }
+        });
+    });
+
+    return bytes;
+  }
+
+  /**
+   * Changes are saved every few new bodies and when the process exits.
+   * Bodies written after the last save of a killed run are swept by eviction and `clear()`.
+   */
+  private markDirty(): void {
+    this.dirty = true;
+    if (!this.flushOnExit) {
+      this.flushOnExit = true;
+      process.once('exit', () => {
+        try {
+          this.flush();
+        } catch {
+          // Losing access times only makes eviction less precise
+        }
+      });
+    }
+  }
+
+  private loadIndex(): LogBodyCacheIndex {
+    if (this.index) {
+      return this.index;
+    }
+
+    const indexPath = path.join(this.directory, INDEX_FILE);
+    try {
+      const stored = JSON.parse(fs.readFileSync(indexPath, 'utf8')) as LogBodyCacheIndex;
+      this.index = { version: 1, hits: stored.hits || 0, misses: stored.misses || 0, entries: stored.entries || {} };
+    } catch {
+      // Missing or corrupt index: start over, orphaned bodies are overwritten as logs are cached again
+      this.index = { version: 1, hits: 0, misses: 0, entries: {} };
+    }
+    this.totalBytes = Object.values(this.index.entries).reduce((sum, entry) => sum + entry.size, 0);
+    return this.index;
+  }
+
+  private bodyPath(sha256: string): string {
+    return path.join(this.directory, 'bodies', sha256.substring(0, 2), sha256);
+  }
+
+  private static key(instanceUrl: string, logId: string): string {
+    return `${this.orgKey(instanceUrl)}|${logId}`;
+  }
+
+  /**
+   * Normalize an instance URL so https://x.my.salesforce.com/ and https://X.my.salesforce.com share entries
+   */
+  static orgKey(instanceUrl: string): string {
+    return instanceUrl.trim().replace(/\/+$/, '').toLowerCase();
+  }
+}
@@ -0,0 +1,205 @@
+import { LogEvent, LogHeader, LogScope, ParsedLog } from './types';
+
+/**
+ * Event types that open a scope, mapped to the event type that closes it
+ */
+export const SCOPE_EVENT_PAIRS: Record<string, string> = {
+  EXECUTION_STARTED: 'EXECUTION_FINISHED',
+  CODE_UNIT_STARTED: 'CODE_UNIT_FINISHED',
+  METHOD_ENTRY: 'METHOD_EXIT',
+  CONSTRUCTOR_ENTRY: 'CONSTRUCTOR_EXIT',
+  SYSTEM_METHOD_ENTRY: 'SYSTEM_METHOD_EXIT',
+  SYSTEM_CONSTRUCTOR_ENTRY: 'SYSTEM_CONSTRUCTOR_EXIT',
+  SOQL_EXECUTE_BEGIN: 'SOQL_EXECUTE_END',
+  SOSL_EXECUTE_BEGIN: 'SOSL_EXECUTE_END',
+  DML_BEGIN: 'DML_END',
+  CALLOUT_REQUEST: 'CALLOUT_RESPONSE',
+  FLOW_START_INTERVIEW_BEGIN: 'FLOW_START_INTERVIEW_END',
+  CUMULATIVE_LIMIT_USAGE: 'CUMULATIVE_LIMIT_USAGE_END'
+};
+
+const CLOSING_EVENT_TYPES = new Set(Object.values(SCOPE_EVENT_PAIRS));
+const FRAME_SCOPE_TYPES = ['METHOD_ENTRY', 'CONSTRUCTOR_ENTRY', 'CODE_UNIT_STARTED'];
+
+// e.g. "12:34:56.789 (1234567)|METHOD_ENTRY|[12]|01p000000000001|MyClass.run()"
+const EVENT_LINE_PATTERN = /^(\d{1,2}:\d{2}:\d{2}\.\d+) \((\d+)\)\|([A-Z0-9_]+)(?:\|(.*))?$/;
+// e.g. "58.0 APEX_CODE,FINEST;APEX_PROFILING,INFO;DB,INFO"
+const HEADER_LINE_PATTERN = /^(\d+\.\d+)\s+((?:[A-Za-z_]+,[A-Za-z]+;?)+)\s*$/;
+const SOURCE_LINE_PATTERN = /^\[(\d+|EXTERNAL)\]$/;
+
+/**
+ * Parser for raw Apex debug log bodies.
+ *
+ * Turns the `timestamp (nanos)|EVENT_TYPE|[line]|details` format into typed events,
+ * and nests entry/exit pairs (code units, methods, SOQL, DML, ...) into a scope tree.
+ * Lines that do not start a new event are kept as continuation lines of the previous
+ * event, which is how multi-line USER_DEBUG payloads and limit blocks are written.
+ */
+export class LogParser {
+  /**
+   * Parse a full debug log body
+   */
+  static parse(body: string): ParsedLog {
+    const lines = body.replace(/\s+$/, '').split(/\r?\n/);
+    const header: LogHeader = { debugLevels: {}, preamble: [] };
+    const events: LogEvent[] = [];
+    const rootScopes: LogScope[] = [];
+    const stack: LogScope[] = [];
+
+    lines.forEach((line, index) => {
+      const match = EVENT_LINE_PATTERN.exec(line);
+
+      if (!match) {
+        const previous = events[events.length - 1];
+        if (previous) {
+          previous.continuation.push(line);
+          if (previous.debug) {
+            previous.debug.message += `\n${line}`;
+          }
+        } else if (!header.apiVersion && HEADER_LINE_PATTERN.test(line.trim())) {
+          this.parseHeaderLine(line.trim(), header);
+        } else if (line.trim().length > 0) {
+          header.preamble.push(line);
+        }
+        return;
+      }
+
+      const event = this.createEvent(match, index + 1, events.length, stack.length);
+      events.push(event);
+
+      if (CLOSING_EVENT_TYPES.has(event.type)) {
+        const openIndex = this.findOpenScope(stack, event.type);
+        if (openIndex >= 0) {
+          // Anything opened above the matching scope never closed (e.g. an exception unwound it)
+          const scope = stack[openIndex];
+          stack.length = openIndex;
+          scope.end = event;
+          scope.durationNanos = event.elapsedNanos - scope.begin.elapsedNanos;
+          event.depth = openIndex;
+          scope.events.push(event);
+          return;
+        }
+      }
+
+      const parent = stack[stack.length - 1];
+      if (SCOPE_EVENT_PAIRS[event.type]) {
+        const scope: LogScope = {
+          type: event.type,
+          name: this.scopeName(event),
+          begin: event,
+          depth: stack.length,
+          events: [event],
+          children: []
+        };
+        (parent ? parent.children : rootScopes).push(scope);
+        stack.push(scope);
+      } else if (parent) {
+        parent.events.push(event);
+      }
+    });
+
+    return { header, events, scopes: rootScopes };
+  }
+
+  /**
+   * Get all events of the given type(s), in log order
+   */
+  static eventsOfType(parsed: ParsedLog, ...types: string[]): LogEvent[] {
+    return parsed.events.filter(event => types.includes(event.type));
+  }
+
+  /**
+   * Get the full text of an event: its fields joined by `|` plus any continuation lines
+   */
+  static eventText(event: LogEvent): string {
+    return [event.fields.join('|'), ...event.continuation].join('\n');
+  }
+
+  /**
+   * Visit every scope in the tree, depth first
+   */
+  static walkScopes(scopes: LogScope[], visit: (scope: LogScope) => void): void {
+    for (const scope of scopes) {
+      visit(scope);
+      this.walkScopes(scope.children, visit);
+    }
+  }
+
+  /**
+   * Map each event index to the innermost method, constructor or code unit that contains it
+   */
+  static mapEnclosingFrames(parsed: ParsedLog): Map<number, LogScope> {
+    const enclosing = new Map<number, LogScope>();
+
+    const visit = (scopes: LogScope[], frame?: LogScope) => {
+      scopes.forEach(scope => {
+        const current = FRAME_SCOPE_TYPES.includes(scope.type) ? scope : frame;
+        if (current) {
+          scope.events.forEach(event => enclosing.set(event.index, current));
+        }
+        visit(scope.children, current);
+      });
+    };
+    visit(parsed.scopes);
+
+    return enclosing;
+  }
+
+  private static createEvent(match: RegExpExecArray, logLine: number, index: number, depth: number): LogEvent {
+    const [, timestamp, nanos, type, rest] = match;
+    const fields = rest !== undefined ? rest.split('|') : [];
+    let sourceLine: number | undefined;
+
+    const sourceMatch = fields.length > 0 ? SOURCE_LINE_PATTERN.exec(fields[0]) : null;
+    if (sourceMatch) {
+      fields.shift();
+      sourceLine = sourceMatch[1] === 'EXTERNAL' ? undefined : parseInt(sourceMatch[1], 10);
+    }
+
+    const event: LogEvent = {
+      index,
+      logLine,
+      timestamp,
+      elapsedNanos: parseInt(nanos, 10),
+      type,
+      sourceLine,
+      fields,
+      continuation: [],
+      depth
+    };
+
+    if (type === 'USER_DEBUG') {
+      event.debug = {
+        level: fields[0] || '',
+        message: fields.slice(1).join('|')
+      };
+    }
+
+    return event;
+  }
+
+  private static parseHeaderLine(line: string, header: LogHeader): void {
+    const match = HEADER_LINE_PATTERN.exec(line)!;
+    header.apiVersion = match[1];
+    match[2].split(';').filter(Boolean).forEach(setting => {
+      const [category, level] = setting.split(',');
+      header.debugLevels[category] = level;
+    });
+  }
+
+  private static findOpenScope(stack: LogScope[], closingType: string): number {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (SCOPE_EVENT_PAIRS[stack[i].type] === closingType) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private static scopeName(event: LogEvent): string {
+    if (event.type === 'DML_BEGIN') {
+      return event.fields.join(' ');
+    }
+    return event.fields[event.fields.length - 1] || event.type;
+  }
+}
@@ -1,163 +1,502 @@
-import { SalesforceClient } from './salesforce-client';
-import { DebugLog, SearchOptions, SearchResult, LogMatch, DownloadOptions, DownloadResult } from './types';
+import { LogSource, OrgLogSource } from './log-source';
+import { DebugLog, SearchOptions, SearchResult, SearchCallbacks, SearchProgress, LogMatch, DownloadOptions, DownloadResult, LogLimitReport, ErrorGroup, ErrorOccurrence, LogSoqlProfile, DebugLogPage, TailOptions, TailedLog, EventOptions, LibraryEvents, Logger, SearchStreamOptions } from './types';
 import { FileUtils } from './file-utils';
+import { ApexLogQuery } from './apex-log-query';
+import { LogParser } from './log-parser';
+import { LimitAnalyzer } from './limit-analyzer';
+import { ErrorAnalyzer } from './error-analyzer';
+import { SoqlAnalyzer, DEFAULT_REPEAT_THRESHOLD } from './soql-analyzer';
+import { TextMatcher } from './text-matcher';
+import { HtmlReport } from './html-report';
+import { AbortError, NotFoundError } from './errors';
+import { sleep } from './sleep';
 import * as path from 'path';
 
+export const DEFAULT_SEARCH_CONCURRENCY = 5;
+
+// Logs fetched per request while catching up on new logs in tailLogs
+const TAIL_PAGE_SIZE = 200;
+
+/**
+ * A log to process, together with the source (and org, when searching several) it came from
+ */
+interface LogTarget {
+  log: DebugLog;
+  source: LogSource;
+  org?: string;
+}
+
 export class LogSearcher {
-  private client: SalesforceClient;
+  private sources: { source: LogSource; org?: string }[];
+  private logger?: Logger;
+  private events: LibraryEvents;
 
-  constructor(client: SalesforceClient) {
-    this.client = client;
+  /**
+   * Search one log source, or several orgs at once.
+   * With several orgs, logs are queried in parallel and results are tagged with their org.
+   * Progress and warnings go to `options.logger` and `options.events`; by default nothing is printed.
+   */
+  constructor(source: LogSource | OrgLogSource[], options: EventOptions = {}) {
+    if (Array.isArray(source) && source.length === 0) {
+      throw new Error('At least one org is required');
+    }
+    this.sources = Array.isArray(source) ? source : [{ source }];
+    this.logger = options.logger;
+    this.events = options.events || {};
   }
 
   /**
    * Search for text across debug logs
    */
-  async searchLogs(options: SearchOptions): Promise<SearchResult[]> {
-    const results: SearchResult[] = [];
+  async searchLogs(options: SearchOptions, callbacks: SearchCallbacks = {}): Promise<SearchResult[]> {
+    const { results } = await this.searchLogsWithStats(options, callbacks);
+    return results;
+  }
+
+  /**
+   * Search for text across debug logs with detailed results
+   */
+  async searchLogsWithStats(options: SearchOptions, callbacks: SearchCallbacks = {}): Promise<{ results: SearchResult[], totalLogsSearched: number }> {
+    const matcher = TextMatcher.compile(options.searchText, options);
 
     // Get debug logs based on filters
-    let logs: DebugLog[] = [];
-    
-    if (options.userId) {
-      logs = await this.client.getDebugLogsByUser(options.userId, options.maxResults || 100);
-    } else if (options.dateFrom || options.dateTo) {
-      logs = await this.client.getDebugLogsByDateRange(
-        options.dateFrom, 
-        options.dateTo, 
-        options.maxResults || 100
-      );
-    } else {
-      logs = await this.client.getDebugLogs(options.maxResults || 100);
-    }
+    const targets = await this.fetchTargets(options, false);
 
-    console.log(`Searching through ${logs.length} debug logs...`);
+    return this.runSearch(targets, matcher, options, callbacks);
+  }
 
-    // Search through each log
-    for (const log of logs) {
-      try {
-        const logBody = await this.client.getDebugLogBody(log.Id);
-        const matches = this.searchInLogBody(logBody, options.searchText, options.caseSensitive);
-        
-        if (matches.length > 0) {
-          results.push({
-            log,
-            matches
-          });
+  /**
+   * Search for text across ALL debug logs using batching
+   */
+  async searchAllLogsWithStats(options: SearchOptions, callbacks: SearchCallbacks = {}): Promise<{ results: SearchResult[], totalLogsSearched: number }> {
+    const matcher = TextMatcher.compile(options.searchText, options);
+
+    // Get ALL debug logs by following the query cursor
+    const targets = await this.fetchTargets(options, true);
+
+    return this.runSearch(targets, matcher, options, callbacks);
+  }
+
+  /**
+   * Stream matching logs as they are found. Log records are fetched a page at a time
+   * and searched `concurrency` at a time, so memory stays flat however many logs match
+   * the filters. Results come in log order; without `useAllLogs` only the first
+   * `maxResults` logs are searched, as with searchLogs.
+   * Stop early by breaking out of the loop or aborting the signal.
+   */
+  async *streamSearchResults(options: SearchOptions, stream: SearchStreamOptions = {}): AsyncGenerator<SearchResult> {
+    const matcher = TextMatcher.compile(options.searchText, options);
+    const concurrency = this.concurrency(options);
+    let matched = 0;
+
+    for await (const targets of this.streamTargets(options, stream)) {
+      for (let i = 0; i < targets.length; i += concurrency) {
+        AbortError.throwIfAborted(stream.signal);
+
+        const chunk = targets.slice(i, i + concurrency);
+        const searched = await Promise.all(chunk.map(target => this.searchTarget(target, matcher, stream.signal)));
+
+        for (let j = 0; j < chunk.length; j++) {
+          const matches = searched[j]?.matches;
+          if (!matches || matches.length === 0) {
+            continue;
+          }
+          yield this.toResult(chunk[j], matches);
+          if (options.maxMatchingLogs !== undefined && ++matched >= options.maxMatchingLogs) {
+            return;
+          }
         }
-      } catch (error) {
-        console.warn(`Failed to retrieve log body for ${log.Id}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Measure governor limit usage for every log matching the filters, highest usage first
+   */
+  async analyzeLimits(options: Omit<SearchOptions, 'searchText'>, useAllLogs: boolean = false): Promise<{ reports: LogLimitReport[], totalLogsSearched: number }> {
+    const { targets, logBodies } = await this.fetchLogsWithBodies(options, useAllLogs, 'Analyzing governor limits in');
+    const reports: LogLimitReport[] = [];
+
+    for (const target of targets) {
+      const logBody = logBodies.get(target);
+      if (logBody === undefined) {
         continue;
       }
+
+      const report = LimitAnalyzer.analyze(target.log, logBody);
+      if (report.namespaces.length > 0) {
+        reports.push(report);
+      }
     }
 
-    return results;
+    return { reports: LimitAnalyzer.rank(reports), totalLogsSearched: targets.length };
   }
 
   /**
-   * Search for text across debug logs with detailed results
+   * Find exceptions and fatal errors in every log matching the filters, grouped by signature
+   */
+  async analyzeErrors(options: Omit<SearchOptions, 'searchText'>, useAllLogs: boolean = false): Promise<{ groups: ErrorGroup[], totalLogsSearched: number, logsWithErrors: number }> {
+    const { targets, logBodies } = await this.fetchLogsWithBodies(options, useAllLogs, 'Scanning for errors in');
+    const occurrences: ErrorOccurrence[] = [];
+    let logsWithErrors = 0;
+
+    for (const target of targets) {
+      const logBody = logBodies.get(target);
+      if (logBody === undefined) {
+        continue;
+      }
+
+      const logErrors = ErrorAnalyzer.analyze(target.log, logBody);
+      if (logErrors.length > 0) {
+        logsWithErrors++;
+        occurrences.push(...logErrors.map(occurrence => target.org ? { ...occurrence, org: target.org } : occurrence));
+      }
+    }
+
+    return { groups: ErrorAnalyzer.cluster(occurrences), totalLogsSearched: targets.length, logsWithErrors };
+  }
+
+  /**
+   * Profile the SOQL queries in every log matching the filters and flag repeated queries
    */
-  async searchLogsWithStats(options: SearchOptions): Promise<{ results: SearchResult[], totalLogsSearched: number }> {
-    const results: SearchResult[] = [];
+  async profileSoql(options: Omit<SearchOptions, 'searchText'>, useAllLogs: boolean = false, repeatThreshold: number = DEFAULT_REPEAT_THRESHOLD): Promise<{ profiles: LogSoqlProfile[], totalLogsSearched: number }> {
+    const { targets, logBodies } = await this.fetchLogsWithBodies(options, useAllLogs, 'Profiling SOQL in');
+    const profiles: LogSoqlProfile[] = [];
 
-    // Get debug logs based on filters
-    let logs: DebugLog[] = [];
-    
-    if (options.userId) {
-      logs = await this.client.getDebugLogsByUser(options.userId, options.maxResults || 100);
-    } else if (options.dateFrom || options.dateTo) {
-      logs = await this.client.getDebugLogsByDateRange(
-        options.dateFrom, 
-        options.dateTo, 
-        options.maxResults || 100
-      );
-    } else {
-      logs = await this.client.getDebugLogs(options.maxResults || 100);
+    for (const target of targets) {
+      const logBody = logBodies.get(target);
+      if (logBody === undefined) {
+        continue;
+      }
+
+      const profile = SoqlAnalyzer.analyze(target.log, logBody, repeatThreshold);
+      if (profile.queries.length > 0) {
+        profiles.push(profile);
+      }
+    }
+
+    return { profiles, totalLogsSearched: targets.length };
+  }
+
+  /**
+   * Poll for debug logs written after the call starts and hand each one to `onLog`.
+   * With a search term, only logs containing it are passed on, along with the matching lines.
+   * Runs until the signal is aborted.
+   */
+  async tailLogs(options: TailOptions, onLog: (tailed: TailedLog) => void, signal?: AbortSignal): Promise<void> {
+    const query = ApexLogQuery.fromFilters(options);
+    if (options.operation) {
+      query.where('Operation', '=', options.operation);
     }
+    if (options.status) {
+      query.where('Status', '=', options.status);
+    }
+
+    const matcher = options.searchText ? TextMatcher.compile(options.searchText, options) : undefined;
+    const source = this.singleSource('Tailing logs');
+
+    // Start from the newest existing log so only logs written from now on are streamed
+    let [lastSeen] = await source.queryDebugLogs(query, 1);
 
-    console.log(`Searching through ${logs.length} debug logs...`);
+    while (!signal?.aborted) {
+      await sleep(options.pollIntervalMs || 5000, signal);
+      if (signal?.aborted) {
+        break;
+      }
 
-    // Search through each log
-    for (const log of logs) {
+      let newLogs: DebugLog[];
       try {
-        const logBody = await this.client.getDebugLogBody(log.Id);
-        const matches = this.searchInLogBody(logBody, options.searchText, options.caseSensitive);
-        
-        if (matches.length > 0) {
-          results.push({
-            log,
-            matches
-          });
-        }
+        newLogs = await this.fetchNewLogs(source, query, lastSeen);
       } catch (error) {
-        console.warn(`Failed to retrieve log body for ${log.Id}: ${error}`);
+        this.logger?.warn(`Failed to poll for new logs: ${error}`);
+        this.events.onFailure?.({ operation: 'query', error });
         continue;
       }
+
+      for (const log of newLogs) {
+        if (signal?.aborted) {
+          break;
+        }
+        lastSeen = log;
+
+        try {
+          const body = await source.getDebugLogBody(log.Id, signal);
+          const matches = matcher ? this.searchInLogBody(body, matcher) : [];
+
+          if (!matcher || matches.length > 0) {
+            onLog({ log, body, matches });
+          }
+        } catch (error) {
+          if (error instanceof AbortError) {
+            break;
+          }
+          this.logger?.warn(`Failed to retrieve log body for ${log.Id}: ${error}`);
+          this.events.onFailure?.({ operation: 'retrieve', logId: log.Id, error });
+        }
+      }
     }
+  }
 
-    return { results, totalLogsSearched: logs.length };
+  /**
+   * Fetch every log written after `lastSeen`, oldest first. Pages back from the newest
+   * log until the previous poll is reached, so a burst of logs between polls isn't cut off.
+   */
+  private async fetchNewLogs(source: LogSource, query: ApexLogQuery, lastSeen?: DebugLog): Promise<DebugLog[]> {
+    const newQuery = lastSeen ? query.clone().newerThan(lastSeen) : query;
+    const newLogs: DebugLog[] = [];
+
+    while (true) {
+      const oldest = newLogs[newLogs.length - 1];
+      const page = await source.queryDebugLogs(oldest ? newQuery.clone().olderThan(oldest) : newQuery, TAIL_PAGE_SIZE);
+      newLogs.push(...page);
+      if (page.length < TAIL_PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return newLogs.reverse();
   }
 
   /**
-   * Search for text across ALL debug logs using batching
+   * Fetch and search log bodies with bounded concurrency.
+   * Results are passed to `onResult` as each log finishes and returned in log order;
+   * once `maxMatchingLogs` logs have matched, no further bodies are fetched.
    */
-  async searchAllLogsWithStats(options: SearchOptions): Promise<{ results: SearchResult[], totalLogsSearched: number }> {
-    const results: SearchResult[] = [];
+  private async runSearch(targets: LogTarget[], matcher: TextMatcher, options: SearchOptions, callbacks: SearchCallbacks): Promise<{ results: SearchResult[], totalLogsSearched: number }> {
+    const concurrency = this.concurrency(options);
+
+    this.logger?.info(`Searching through ${targets.length} debug logs...`);
+
+    const found: { index: number, result: SearchResult }[] = [];
+    const startTime = Date.now();
+    const progress: SearchProgress = { processed: 0, total: targets.length, matched: 0, failed: 0, bytesProcessed: 0, elapsedMs: 0 };
+    const limitReached = () => options.maxMatchingLogs !== undefined && found.length >= options.maxMatchingLogs;
+    const queue = this.interleaveByOrg(targets);
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < queue.length && !limitReached()) {
+        const index = queue[nextIndex++];
+        const searched = await this.searchTarget(targets[index], matcher);
+
+        if (!searched) {
+          progress.failed++;
+        } else {
+          progress.bytesProcessed += searched.bytes;
+          // Logs already in flight when the limit was reached are searched but not reported
+          if (searched.matches.length > 0 && !limitReached()) {
+            const result = this.toResult(targets[index], searched.matches);
+            found.push({ index, result });
+            progress.matched++;
+            callbacks.onResult?.(result);
+          }
+        }
 
-    // Get ALL debug logs using batching
-    let logs: DebugLog[] = [];
-    
-    if (options.userId) {
-      logs = await this.client.getAllDebugLogsByUser(options.userId, options.maxResults);
-    } else if (options.dateFrom || options.dateTo) {
-      logs = await this.client.getAllDebugLogsByDateRange(
-        options.dateFrom, 
-        options.dateTo, 
-        options.maxResults
-      );
-    } else {
-      logs = await this.client.getAllDebugLogs(options.maxResults);
+        progress.processed++;
+        progress.elapsedMs = Date.now() - startTime;
+        const remaining = progress.total - progress.processed;
+        progress.etaMs = Math.round((progress.elapsedMs / progress.processed) * remaining);
+        callbacks.onProgress?.({ ...progress });
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, targets.length) }, worker));
+
+    return {
+      results: found.sort((a, b) => a.index - b.index).map(entry => entry.result),
+      totalLogsSearched: progress.processed
+    };
+  }
+
+  private concurrency(options: SearchOptions): number {
+    const concurrency = options.concurrency ?? DEFAULT_SEARCH_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid concurrency: ${options.concurrency}`);
     }
+    return concurrency;
+  }
 
-    console.log(`Searching through ${logs.length} debug logs...`);
+  /**
+   * Fetch and search one log body. A body that can't be retrieved is reported and gives undefined;
+   * aborting the signal cancels the download and throws an AbortError.
+   */
+  private async searchTarget(target: LogTarget, matcher: TextMatcher, signal?: AbortSignal): Promise<{ matches: LogMatch[], bytes: number } | undefined> {
+    const { log, source, org } = target;
+    try {
+      const logBody = await source.getDebugLogBody(log.Id, signal);
+      const bytes = Buffer.byteLength(logBody, 'utf8');
+      const matches = this.searchInLogBody(logBody, matcher);
+      this.events.onLogSearched?.({ log, org, matches: matches.length, bytes });
+      return { matches, bytes };
+    } catch (error) {
+      if (error instanceof AbortError) {
+        throw error;
+      }
+      this.logger?.warn(`Failed to retrieve log body for ${log.Id}${org ? ` in ${org}` : ''}: ${error}`);
+      this.events.onFailure?.({ operation: 'retrieve', logId: log.Id, org, error });
+      return undefined;
+    }
+  }
 
-    // Search through each log
-    for (const log of logs) {
-      try {
-        const logBody = await this.client.getDebugLogBody(log.Id);
-        const matches = this.searchInLogBody(logBody, options.searchText, options.caseSensitive);
-        
-        if (matches.length > 0) {
-          results.push({
-            log,
-            matches
-          });
+  private toResult({ log, org }: LogTarget, matches: LogMatch[]): SearchResult {
+    return org ? { log, matches, org } : { log, matches };
+  }
+
+  /**
+   * Order log indexes so the workers take one log from each org in turn,
+   * letting every org make progress from the start instead of one after another
+   */
+  private interleaveByOrg(targets: LogTarget[]): number[] {
+    const byOrg = new Map<string | undefined, number[]>();
+    targets.forEach((target, index) => {
+      byOrg.set(target.org, [...(byOrg.get(target.org) || []), index]);
+    });
+
+    const queues = Array.from(byOrg.values());
+    const order: number[] = [];
+    for (let position = 0; order.length < targets.length; position++) {
+      queues.forEach(queue => {
+        if (position < queue.length) {
+          order.push(queue[position]);
         }
+      });
+    }
+    return order;
+  }
+
+  /**
+   * Fetch the logs matching the filters together with their bodies
+   */
+  private async fetchLogsWithBodies(options: Omit<SearchOptions, 'searchText'>, useAllLogs: boolean, activity: string): Promise<{ targets: LogTarget[], logBodies: Map<LogTarget, string> }> {
+    const targets = await this.fetchTargets(options, useAllLogs);
+
+    this.logger?.info(`${activity} ${targets.length} debug logs...`);
+
+    const logBodies = new Map<LogTarget, string>();
+    await Promise.all(this.sources.map(async ({ source }) => {
+      const sourceTargets = targets.filter(target => target.source === source);
+      const bodies = await source.getDebugLogBodies(sourceTargets.map(target => target.log.Id));
+      sourceTargets.forEach(target => {
+        const body = bodies.get(target.log.Id);
+        if (body !== undefined) {
+          logBodies.set(target, body);
+        }
+      });
+    }));
+
+    return { targets, logBodies };
+  }
+
+  /**
+   * Fetch the logs matching the filters from every source in parallel.
+   * When searching several orgs, an org that fails is skipped with a warning.
+   */
+  private async fetchTargets(options: Omit<SearchOptions, 'searchText'>, useAllLogs: boolean): Promise<LogTarget[]> {
+    const perSource = await Promise.all(this.sources.map(async ({ source, org }) => {
+      try {
+        const logs = await this.fetchLogs(source, options, useAllLogs);
+        return logs.map(log => ({ log, source, org }));
       } catch (error) {
-        console.warn(`Failed to retrieve log body for ${log.Id}: ${error}`);
-        continue;
+        if (!org) {
+          throw error;
+        }
+        this.logger?.warn(`⚠️  Skipping org ${org}: ${error}`);
+        this.events.onFailure?.({ operation: 'query', org, error });
+        return [];
       }
+    }));
+
+    return perSource.flat();
+  }
+
+  /**
+   * Yield the logs to search a page at a time. With `useAllLogs` every source is paged
+   * through, taking a page from each org in turn; otherwise the first `maxResults` logs
+   * are fetched as one page. An org that fails is skipped with a warning.
+   */
+  private async *streamTargets(options: Omit<SearchOptions, 'searchText'>, stream: SearchStreamOptions): AsyncGenerator<LogTarget[]> {
+    AbortError.throwIfAborted(stream.signal);
+    if (!stream.useAllLogs) {
+      yield await this.fetchTargets(options, false);
+      return;
     }
 
-    return { results, totalLogsSearched: logs.length };
+    const query = ApexLogQuery.fromFilters(options);
+    let active = this.sources.map(({ source, org }) => ({
+      source,
+      org,
+      pages: source.streamDebugLogs(query, { maxLogs: options.maxResults, signal: stream.signal })
+    }));
+
+    while (active.length > 0) {
+      const remaining: typeof active = [];
+      for (const entry of active) {
+        let page: IteratorResult<DebugLogPage>;
+        try {
+          page = await entry.pages.next();
+        } catch (error) {
+          if (!entry.org || error instanceof AbortError) {
+            throw error;
+          }
+          this.logger?.warn(`⚠️  Skipping org ${entry.org}: ${error}`);
+          this.events.onFailure?.({ operation: 'query', org: entry.org, error });
+          continue;
+        }
+
+        if (!page.done) {
+          remaining.push(entry);
+          yield page.value.records.map(log => ({ log, source: entry.source, org: entry.org }));
+        }
+      }
+      active = remaining;
+    }
   }
 
   /**
-   * Search for text within a single log body
+   * Fetch the logs matching the filters, either a single page or ALL logs via the query cursor
    */
-  private searchInLogBody(logBody: string, searchText: string, caseSensitive: boolean = false): LogMatch[] {
+  private async fetchLogs(source: LogSource, options: Omit<SearchOptions, 'searchText'>, useAllLogs: boolean): Promise<DebugLog[]> {
+    const query = ApexLogQuery.fromFilters(options);
+
+    if (useAllLogs) {
+      const { records } = await source.queryAllDebugLogs(query, options.maxResults);
+      return records;
+    }
+
+    return source.queryDebugLogs(query, options.maxResults || 100);
+  }
+
+  /**
+   * The only source, for operations that work on a single org
+   */
+  private singleSource(operation: string): LogSource {
+    if (this.sources.length > 1) {
+      throw new Error(`${operation} works with a single org`);
+    }
+    return this.sources[0].source;
+  }
+
+  /**
+   * Search for the compiled query within a single log body
+   */
+  private searchInLogBody(logBody: string, matcher: TextMatcher): LogMatch[] {
     const matches: LogMatch[] = [];
+    if (!matcher.matchesLog(logBody)) {
+      return matches;
+    }
+
     const lines = logBody.split('\n');
-    const searchPattern = caseSensitive ? searchText : searchText.toLowerCase();
 
     lines.forEach((line, index) => {
-      const searchLine = caseSensitive ? line : line.toLowerCase();
-      
-      if (searchLine.includes(searchPattern)) {
+      const trimmed = line.trim();
+      const spans = matcher.matchLine(trimmed);
+
+      if (spans) {
         matches.push({
           lineNumber: index + 1,
-          line: line.trim(),
-          context: this.getContext(lines, index, 2) // 2 lines of context before/after
+          line: trimmed,
+          context: this.getContext(lines, index, 2), // 2 lines of context before/after
+          spans
         });
       }
     });
@@ -204,13 +543,13 @@ export class LogSearcher {
   /**
    * Search and download matching logs efficiently
    */
-  async searchAndDownloadLogs(searchOptions: SearchOptions, downloadOptions: DownloadOptions, useAllLogs: boolean = false): Promise<DownloadResult> {
-    console.log(`🔍 Searching logs for pattern: "${searchOptions.searchText}"`);
+  async searchAndDownloadLogs(searchOptions: SearchOptions, downloadOptions: DownloadOptions, useAllLogs: boolean = false, callbacks: SearchCallbacks = {}): Promise<DownloadResult> {
+    this.logger?.info(`🔍 Searching logs for pattern: "${searchOptions.searchText}"`);
     
     // First, search for matching logs with stats
     const { results: searchResults, totalLogsSearched } = useAllLogs 
-      ? await this.searchAllLogsWithStats(searchOptions)
-      : await this.searchLogsWithStats(searchOptions);
+      ? await this.searchAllLogsWithStats(searchOptions, callbacks)
+      : await this.searchLogsWithStats(searchOptions, callbacks);
     
     if (searchResults.length === 0) {
       return {
@@ -224,7 +563,7 @@ export class LogSearcher {
       };
     }
 
-    console.log(`📋 Found ${searchResults.length} logs with matches`);
+    this.logger?.info(`📋 Found ${searchResults.length} logs with matches`);
 
     // Check disk space
     const logs = searchResults.map(r => r.log);
@@ -234,24 +573,35 @@ export class LogSearcher {
       throw new Error(`Insufficient disk space. Estimated size needed: ${FileUtils.formatBytes(estimatedSize)}`);
     }
 
-    console.log(`💾 Estimated download size: ${FileUtils.formatBytes(estimatedSize)}`);
+    this.logger?.info(`💾 Estimated download size: ${FileUtils.formatBytes(estimatedSize)}`);
 
     // Ensure output directory exists
     FileUtils.ensureDirectoryExists(downloadOptions.outputDir);
 
-    // Extract log IDs for efficient batch download
-    const logIds = logs.map(log => log.Id);
-    console.log(`⬇️  Downloading ${logIds.length} log files...`);
+    this.logger?.info(`⬇️  Downloading ${logs.length} log files...`);
 
-    // Download log bodies efficiently in batches
-    const logBodies = await this.client.getDebugLogBodies(logIds);
+    // Download log bodies efficiently in batches, from the org each log came from
+    const logBodies = new Map<SearchResult, string>();
+    for (const { source, org } of this.sources) {
+      const orgResults = searchResults.filter(result => result.org === org);
+      if (orgResults.length === 0) {
+        continue;
+      }
+      const bodies = await source.getDebugLogBodies(orgResults.map(result => result.log.Id));
+      orgResults.forEach(result => {
+        const body = bodies.get(result.log.Id);
+        if (body !== undefined) {
+          logBodies.set(result, body);
+        }
+      });
+    }
     
     const downloadedLogs: string[] = [];
     const failedDownloads: string[] = [];
 
-    // Save each log and its metadata
+    // Save each log and its metadata; logs from several orgs go into a subfolder per org
     for (const result of searchResults) {
-      const logBody = logBodies.get(result.log.Id);
+      const logBody = logBodies.get(result);
       
       if (!logBody) {
         failedDownloads.push(result.log.Id);
@@ -259,29 +609,33 @@ export class LogSearcher {
       }
 
       try {
+        const outputDir = result.org
+          ? path.join(downloadOptions.outputDir, result.org.replace(/[^a-zA-Z0-9._-]/g, '_'))
+          : downloadOptions.outputDir;
+        FileUtils.ensureDirectoryExists(outputDir);
+
         // Generate filenames
         const logFileName = FileUtils.generateLogFileName(result.log);
         const metadataFileName = FileUtils.generateMetadataFileName(result.log);
         
-        const logFilePath = path.join(downloadOptions.outputDir, logFileName);
-        const metadataFilePath = path.join(downloadOptions.outputDir, metadataFileName);
+        const logFilePath = path.join(outputDir, logFileName);
+        const metadataFilePath = path.join(outputDir, metadataFileName);
 
         // Save log content
         await FileUtils.saveLogToFile(logFilePath, logBody);
         
         // Save metadata with match information
         if (downloadOptions.includeMetadata) {
-          await FileUtils.saveMetadataToFile(metadataFilePath, result.log, result.matches);
+          const limits = LimitAnalyzer.extract(LogParser.parse(logBody));
+          await FileUtils.saveMetadataToFile(metadataFilePath, result.log, result.matches, limits);
         }
 
         downloadedLogs.push(result.log.Id);
-        
-        if (downloadOptions.verbose) {
-          console.log(`✅ Downloaded: ${logFileName}`);
-        }
+        this.events.onLogDownloaded?.({ log: result.log, filePath: logFilePath, org: result.org });
         
       } catch (error) {
-        console.warn(`❌ Failed to save log ${result.log.Id}: ${error}`);
+        this.logger?.warn(`❌ Failed to save log ${result.log.Id}: ${error}`);
+        this.events.onFailure?.({ operation: 'save', logId: result.log.Id, org: result.org, error });
         failedDownloads.push(result.log.Id);
       }
     }
@@ -309,9 +663,20 @@ export class LogSearcher {
       estimatedSize
     };
 
-    console.log(`🎉 Download complete: ${downloadedLogs.length}/${searchResults.length} logs saved`);
+    if (downloadOptions.reportPath) {
+      await HtmlReport.save(downloadOptions.reportPath, {
+        title: 'Debug Log Search Report',
+        searchText: searchOptions.searchText,
+        generatedAt: new Date().toISOString(),
+        totalLogsSearched,
+        results: searchResults,
+        download: result
+      });
+    }
+
+    this.logger?.info(`🎉 Download complete: ${downloadedLogs.length}/${searchResults.length} logs saved`);
     if (failedDownloads.length > 0) {
-      console.log(`⚠️  ${failedDownloads.length} downloads failed`);
+      this.logger?.info(`⚠️  ${failedDownloads.length} downloads failed`);
     }
 
     return result;
@@ -321,23 +686,18 @@ export class LogSearcher {
    * Download specific logs by their IDs
    */
   async downloadLogsByIds(logIds: string[], downloadOptions: DownloadOptions): Promise<DownloadResult> {
-    console.log(`📋 Downloading ${logIds.length} specific logs...`);
+    this.logger?.info(`📋 Downloading ${logIds.length} specific logs...`);
+
+    const source = this.singleSource('Downloading logs by ID');
 
     // Get log metadata first
-    const allLogs: DebugLog[] = [];
-    for (const logId of logIds) {
-      try {
-        // We need to fetch logs to get metadata - this is a limitation of the current approach
-        // In a production system, you might want to cache log metadata or fetch it separately
-        const logs = await this.client.getDebugLogs(1000); // Get recent logs to find our IDs
-        const log = logs.find(l => l.Id === logId);
-        if (log) {
-          allLogs.push(log);
-        }
-      } catch (error) {
-        console.warn(`Failed to get metadata for log ${logId}: ${error}`);
-      }
-    }
+    const allLogs = await source.getDebugLogsByIds(logIds);
+    const missingLogIds = logIds.filter(logId => !allLogs.some(log => log.Id === logId));
+    missingLogIds.forEach(logId => {
+      const error = new NotFoundError(`Failed to get metadata for log ${logId}: not found`);
+      this.logger?.warn(error.message);
+      this.events.onFailure?.({ operation: 'retrieve', logId, error });
+    });
 
     // Check disk space
     const { hasSpace, estimatedSize } = FileUtils.checkDiskSpace(allLogs, downloadOptions.outputDir);
@@ -350,10 +710,10 @@ export class LogSearcher {
     FileUtils.ensureDirectoryExists(downloadOptions.outputDir);
 
     // Download log bodies efficiently
-    const logBodies = await this.client.getDebugLogBodies(logIds);
+    const logBodies = await source.getDebugLogBodies(logIds);
     
     const downloadedLogs: string[] = [];
-    const failedDownloads: string[] = [];
+    const failedDownloads: string[] = [...missingLogIds];
 
     // Save each log
     for (const log of allLogs) {
@@ -373,17 +733,16 @@ export class LogSearcher {
         if (downloadOptions.includeMetadata) {
           const metadataFileName = FileUtils.generateMetadataFileName(log);
           const metadataFilePath = path.join(downloadOptions.outputDir, metadataFileName);
-          await FileUtils.saveMetadataToFile(metadataFilePath, log);
+          const limits = LimitAnalyzer.extract(LogParser.parse(logBody));
+          await FileUtils.saveMetadataToFile(metadataFilePath, log, [], limits);
         }
 
         downloadedLogs.push(log.Id);
-        
-        if (downloadOptions.verbose) {
-          console.log(`✅ Downloaded: ${logFileName}`);
-        }
+        this.events.onLogDownloaded?.({ log, filePath: logFilePath });
         
       } catch (error) {
-        console.warn(`❌ Failed to save log ${log.Id}: ${error}`);
+        this.logger?.warn(`❌ Failed to save log ${log.Id}: ${error}`);
+        this.events.onFailure?.({ operation: 'save', logId: log.Id, error });
         failedDownloads.push(log.Id);
       }
     }
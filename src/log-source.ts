@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApexLogQuery } from './apex-log-query';
+import { FileUtils } from './file-utils';
+import { DebugLog, DebugLogPage, EventOptions, LibraryEvents, Logger, PagedResult, SalesforceUser, StreamOptions } from './types';
+import { AbortError, NotFoundError } from './errors';
+
+/**
+ * Where LogSearcher reads logs from: the Tooling API (SalesforceClient) or a local directory
+ */
+export interface LogSource {
+  testConnection(): Promise<boolean>;
+  queryDebugLogs(query: ApexLogQuery, limit?: number): Promise<DebugLog[]>;
+  queryAllDebugLogs(query: ApexLogQuery, maxLogs?: number): Promise<PagedResult<DebugLog>>;
+  streamDebugLogs(query: ApexLogQuery, options?: StreamOptions): AsyncGenerator<DebugLogPage>;
+  getDebugLogsByIds(logIds: string[]): Promise<DebugLog[]>;
+  getDebugLogBody(logId: string, signal?: AbortSignal): Promise<string>;
+  getDebugLogBodies(logIds: string[]): Promise<Map<string, string>>;
+  findUsers(terms: string[]): Promise<SalesforceUser[]>;
+}
+
+/**
+ * A log source tagged with the org (profile or alias) it reads from, for searches across several orgs
+ */
+export interface OrgLogSource {
+  org: string;
+  source: LogSource;
+}
+
+// e.g. "2024-01-15_14-30-45_Anonymous_07L5g000001AbCdEAK.log"
+const LOG_ID_IN_FILE_NAME = /(07L[a-zA-Z0-9]{12}(?:[a-zA-Z0-9]{3})?)$/;
+
+/**
+ * Log source backed by a directory of `.log` files, searched recursively.
+ *
+ * Logs downloaded by this tool have a sidecar `.json` metadata file with the original
+ * ApexLog fields. Other logs (attached to a case, exported by a colleague) get their
+ * fields from the file itself: the ID from the file name when it contains one,
+ * otherwise the relative path, and the date from the file's modification time.
+ */
+export class LocalLogSource implements LogSource {
+  readonly directory: string;
+  private files?: Map<string, { log: DebugLog, filePath: string }>;
+  private logger?: Logger;
+  private events: LibraryEvents;
+
+  constructor(directory: string, options: EventOptions = {}) {
+    this.directory = path.resolve(directory);
+    this.logger = options.logger;
+    this.events = options.events || {};
+  }
+
+  /**
+   * A local source is available when its directory can be read
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      return fs.statSync(this.directory).isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Logs matching the query, newest first
+   */
+  async queryDebugLogs(query: ApexLogQuery, limit: number = 100): Promise<DebugLog[]> {
+    return query.filterLogs(this.allLogs(), limit);
+  }
+
+  /**
+   * All logs matching the query; local results are never truncated
+   */
+  async queryAllDebugLogs(query: ApexLogQuery, maxLogs?: number): Promise<PagedResult<DebugLog>> {
+    const matching = query.filterLogs(this.allLogs());
+    const records = maxLogs !== undefined ? matching.slice(0, maxLogs) : matching;
+    return { records, totalSize: matching.length, truncated: false };
+  }
+
+  /**
+   * All logs matching the query as a single page, since the directory is indexed in memory anyway
+   */
+  async *streamDebugLogs(query: ApexLogQuery, options: StreamOptions = {}): AsyncGenerator<DebugLogPage> {
+    AbortError.throwIfAborted(options.signal);
+    const { records } = await this.queryAllDebugLogs(query, options.maxLogs);
+    yield { records, page: 1, totalSize: records.length };
+  }
+
+  /**
+   * Get log records for specific IDs; unknown IDs are skipped
+   */
+  async getDebugLogsByIds(logIds: string[]): Promise<DebugLog[]> {
+    const files = this.scan();
+    return logIds.filter(logId => files.has(logId)).map(logId => files.get(logId)!.log);
+  }
+
+  /**
+   * Read a log body from disk
+   */
+  async getDebugLogBody(logId: string, signal?: AbortSignal): Promise<string> {
+    AbortError.throwIfAborted(signal);
+    const file = this.scan().get(logId);
+    if (!file) {
+      throw new NotFoundError(`Failed to retrieve debug log body for ID ${logId}: not found in ${this.directory}`);
+    }
+
+    try {
+      return fs.readFileSync(file.filePath, 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to retrieve debug log body for ID ${logId}: ${error}`);
+    }
+  }
+
+  /**
+   * Read several log bodies; unreadable logs are skipped with a warning
+   */
+  async getDebugLogBodies(logIds: string[]): Promise<Map<string, string>> {
+    const results = new Map<string, string>();
+
+    for (const logId of logIds) {
+      try {
+        results.set(logId, await this.getDebugLogBody(logId));
+      } catch (error) {
+        this.logger?.warn(`${error}`);
+        this.events.onFailure?.({ operation: 'retrieve', logId, error });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Find the users whose username or name is one of the terms (case-insensitive).
+   * Only logs downloaded with metadata by this tool know their user's name.
+   */
+  async findUsers(terms: string[]): Promise<SalesforceUser[]> {
+    const wanted = terms.map(term => term.toLowerCase());
+    const users = new Map<string, SalesforceUser>();
+
+    this.allLogs().forEach(log => {
+      const user = log.LogUser;
+      if (user && !users.has(log.LogUserId) && (wanted.includes(user.Username.toLowerCase()) || wanted.includes(user.Name.toLowerCase()))) {
+        users.set(log.LogUserId, { Id: log.LogUserId, ...user });
+      }
+    });
+
+    return Array.from(users.values());
+  }
+
+  private allLogs(): DebugLog[] {
+    return Array.from(this.scan().values()).map(file => file.log);
+  }
+
+  /**
+   * Index the directory once; later calls reuse the result
+   */
+  private scan(): Map<string, { log: DebugLog, filePath: string }> {
+    if (this.files) {
+      return this.files;
+    }
+
+    if (!fs.existsSync(this.directory)) {
+      throw new NotFoundError(`Log directory not found: ${this.directory}`);
+    }
+
+    this.files = new Map();
+    for (const filePath of this.findLogFiles(this.directory)) {
+      const log = this.readLogRecord(filePath);
+      if (this.files.has(log.Id)) {
+        this.logger?.warn(`⚠️  Skipping ${filePath}: log ${log.Id} was already found in ${this.files.get(log.Id)!.filePath}`);
+        continue;
+      }
+      this.files.set(log.Id, { log, filePath });
+    }
+
+    return this.files;
+  }
+
+  private findLogFiles(directory: string): string[] {
+    const found: string[] = [];
+
+    fs.readdirSync(directory, { withFileTypes: true }).forEach(entry => {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        found.push(...this.findLogFiles(entryPath));
+      } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.log')) {
+        found.push(entryPath);
+      }
+    });
+
+    return found.sort();
+  }
+
+  private readLogRecord(filePath: string): DebugLog {
+    const baseName = filePath.slice(0, -path.extname(filePath).length);
+
+    try {
+      const metadataLog = FileUtils.readMetadataFromFile(`${baseName}.json`);
+      if (metadataLog) {
+        return metadataLog;
+      }
+    } catch (error) {
+      this.logger?.warn(`⚠️  ${error instanceof Error ? error.message : error}; using file details instead`);
+    }
+
+    const stats = fs.statSync(filePath);
+    const idMatch = LOG_ID_IN_FILE_NAME.exec(path.basename(baseName));
+    const modified = stats.mtime.toISOString();
+
+    return {
+      Id: idMatch ? idMatch[1] : path.relative(this.directory, baseName),
+      LogUserId: '',
+      LogLength: stats.size,
+      LastModifiedDate: modified,
+      Request: '',
+      Operation: path.basename(filePath),
+      Application: '',
+      Status: 'Unknown',
+      DurationMilliseconds: 0,
+      StartTime: modified,
+      Location: this.directory
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SalesforceClient } from './salesforce-client';
+import { ApexLogQuery } from './apex-log-query';
+import { FileUtils } from './file-utils';
+import { LimitAnalyzer } from './limit-analyzer';
+import { LogParser } from './log-parser';
+import { DebugLog, EventOptions, LibraryEvents, Logger, SyncManifest, SyncOptions, SyncResult } from './types';
+
+export const SYNC_MANIFEST_FILE = 'sync-manifest.json';
+
+/**
+ * Incrementally mirrors debug logs into a local directory.
+ *
+ * A manifest in the directory records every downloaded log with its checksum and size,
+ * so later runs only fetch new logs. The manifest is saved after each batch and files are
+ * written under a temporary name first, so an interrupted run can simply be started again.
+ */
+export class LogSync {
+  private client: SalesforceClient;
+  private logger?: Logger;
+  private events: LibraryEvents;
+
+  constructor(client: SalesforceClient, options: EventOptions = {}) {
+    this.client = client;
+    this.logger = options.logger;
+    this.events = options.events || {};
+  }
+
+  /**
+   * Download every matching log that isn't in the manifest yet
+   */
+  async sync(options: SyncOptions): Promise<SyncResult> {
+    FileUtils.ensureDirectoryExists(options.outputDir);
+
+    const manifestPath = path.join(options.outputDir, SYNC_MANIFEST_FILE);
+    const manifest = FileUtils.loadSyncManifest(manifestPath, this.client.instanceUrl);
+
+    const { records: logs } = await this.client.queryAllDebugLogs(ApexLogQuery.fromFilters(options), options.maxLogs);
+
+    const result: SyncResult = {
+      totalLogs: logs.length,
+      alreadySynced: 0,
+      downloaded: 0,
+      repaired: 0,
+      failedDownloads: [],
+      bytesDownloaded: 0,
+      manifestPath
+    };
+
+    const pending = logs.filter(log => {
+      if (this.isSynced(manifest, log, options)) {
+        result.alreadySynced++;
+        return false;
+      }
+      return true;
+    });
+
+    this.logger?.info(`🔄 ${result.alreadySynced} logs already synced, ${pending.length} to download`);
+
+    // Fetch in small batches so bodies don't pile up in memory and progress is saved often
+    const batchSize = 10;
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const batch = pending.slice(i, i + batchSize);
+      const logBodies = await this.client.getDebugLogBodies(batch.map(log => log.Id));
+
+      for (const log of batch) {
+        const logBody = logBodies.get(log.Id);
+        if (logBody === undefined) {
+          result.failedDownloads.push(log.Id);
+          continue;
+        }
+
+        try {
+          const wasKnown = manifest.logs[log.Id] !== undefined;
+          await this.saveLog(options, manifest, log, logBody);
+
+          result.bytesDownloaded += Buffer.byteLength(logBody, 'utf8');
+          if (wasKnown) {
+            result.repaired++;
+          } else {
+            result.downloaded++;
+          }
+
+          this.events.onLogDownloaded?.({ log, filePath: path.join(options.outputDir, manifest.logs[log.Id].fileName) });
+        } catch (error) {
+          this.logger?.warn(`❌ Failed to save log ${log.Id}: ${error}`);
+          this.events.onFailure?.({ operation: 'save', logId: log.Id, error });
+          result.failedDownloads.push(log.Id);
+        }
+      }
+
+      FileUtils.saveSyncManifest(manifestPath, manifest);
+    }
+
+    manifest.lastSyncedAt = new Date().toISOString();
+    FileUtils.saveSyncManifest(manifestPath, manifest);
+
+    return result;
+  }
+
+  /**
+   * A log counts as synced when it is in the manifest and, with `verify`, its file is intact
+   */
+  private isSynced(manifest: SyncManifest, log: DebugLog, options: SyncOptions): boolean {
+    const entry = manifest.logs[log.Id];
+    if (!entry) {
+      return false;
+    }
+    if (!options.verify) {
+      return true;
+    }
+    return FileUtils.fileChecksum(path.join(options.outputDir, entry.fileName)) === entry.sha256;
+  }
+
+  private async saveLog(options: SyncOptions, manifest: SyncManifest, log: DebugLog, logBody: string): Promise<void> {
+    const fileName = FileUtils.generateLogFileName(log);
+    const filePath = path.join(options.outputDir, fileName);
+    const partialPath = `${filePath}.partial`;
+
+    await FileUtils.saveLogToFile(partialPath, logBody);
+    fs.renameSync(partialPath, filePath);
+
+    if (options.includeMetadata) {
+      const metadataPath = path.join(options.outputDir, FileUtils.generateMetadataFileName(log));
+      const limits = LimitAnalyzer.extract(LogParser.parse(logBody));
+      await FileUtils.saveMetadataToFile(metadataPath, log, [], limits);
+    }
+
+    manifest.logs[log.Id] = {
+      fileName,
+      sha256: FileUtils.checksum(logBody),
+      size: Buffer.byteLength(logBody, 'utf8'),
+      lastModifiedDate: log.LastModifiedDate,
+      downloadedAt: new Date().toISOString()
+    };
+  }
+}
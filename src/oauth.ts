@@ -0,0 +1,94 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { AccessToken, JwtBearerAuth, OAuthConfig, RefreshTokenAuth } from './types';
+import { SalesforceError } from './errors';
+
+export const DEFAULT_LOGIN_URL = 'https://login.salesforce.com';
+
+// Salesforce rejects JWT assertions that expire more than 3 minutes out
+const JWT_LIFETIME_SECONDS = 180;
+
+/**
+ * Obtains access tokens from the Salesforce OAuth token endpoint,
+ * using either a refresh token or a signed JWT bearer assertion.
+ */
+export class OAuthTokenProvider {
+  private auth: OAuthConfig;
+
+  constructor(auth: OAuthConfig) {
+    this.auth = auth;
+  }
+
+  /**
+   * Request a new access token
+   */
+  async fetchToken(): Promise<AccessToken> {
+    const loginUrl = (this.auth.loginUrl || DEFAULT_LOGIN_URL).replace(/\/+$/, '');
+    const params = this.auth.type === 'jwt'
+      ? this.jwtBearerParams(this.auth, loginUrl)
+      : this.refreshTokenParams(this.auth);
+
+    try {
+      const response = await axios.post(`${loginUrl}/services/oauth2/token`, params.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+      });
+
+      return {
+        accessToken: response.data.access_token,
+        instanceUrl: response.data.instance_url,
+        issuedAt: new Date(Number(response.data.issued_at) || Date.now()).toISOString()
+      };
+    } catch (error) {
+      throw SalesforceError.from(error, `Failed to obtain access token with ${this.describe()}`);
+    }
+  }
+
+  /**
+   * Human-readable name of the flow, for messages
+   */
+  describe(): string {
+    return this.auth.type === 'jwt' ? `JWT bearer flow for ${this.auth.username}` : 'refresh token flow';
+  }
+
+  private refreshTokenParams(auth: RefreshTokenAuth): URLSearchParams {
+    const params = new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: auth.clientId,
+      refresh_token: auth.refreshToken
+    });
+    if (auth.clientSecret) {
+      params.set('client_secret', auth.clientSecret);
+    }
+    return params;
+  }
+
+  private jwtBearerParams(auth: JwtBearerAuth, loginUrl: string): URLSearchParams {
+    return new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: OAuthTokenProvider.signJwt(auth, loginUrl)
+    });
+  }
+
+  /**
+   * Build an RS256-signed JWT assertion for the connected app
+   */
+  static signJwt(auth: JwtBearerAuth, audience: string): string {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const header = encode({ alg: 'RS256', typ: 'JWT' });
+    const claims = encode({
+      iss: auth.clientId,
+      sub: auth.username,
+      aud: audience,
+      exp: Math.floor(Date.now() / 1000) + JWT_LIFETIME_SECONDS
+    });
+
+    let signature: string;
+    try {
+      signature = crypto.createSign('RSA-SHA256').update(`${header}.${claims}`).sign(auth.privateKey, 'base64url');
+    } catch (error) {
+      throw new Error(`Failed to sign JWT with the private key: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return `${header}.${claims}.${signature}`;
+  }
+}
@@ -0,0 +1,243 @@
+import { APEX_LOG_FIELDS } from './apex-log-query';
+import {
+  DebugLog,
+  DeleteOutcome,
+  DownloadResult,
+  FormattedOutput,
+  LogCountSummary,
+  OutputFormat,
+  OutputValue,
+  SearchResult
+} from './types';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson', 'csv', 'table'];
+
+const TABLE_CELL_WIDTH = 80;
+
+/**
+ * Builds and renders the machine-readable output of CLI commands.
+ *
+ * The builders below define the documented schemas: logs are always plain `DebugLog`
+ * records with their Salesforce field names (the API's `attributes` object is left out),
+ * search results are `SearchResult` objects,
+ * and CSV/table rows flatten them into the listed columns.
+ */
+export class OutputFormatter {
+  /**
+   * Validate a --format value
+   */
+  static parseFormat(value: string = 'text'): OutputFormat {
+    const format = value.toLowerCase() as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new Error(`Invalid format: ${value}. Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+    }
+    return format;
+  }
+
+  /**
+   * Render an output in one of the machine-readable formats
+   */
+  static render(format: Exclude<OutputFormat, 'text'>, output: FormattedOutput): string {
+    switch (format) {
+      case 'json':
+        return JSON.stringify(output.document, null, 2);
+      case 'ndjson':
+        return output.records.map(record => JSON.stringify(record)).join('\n');
+      case 'csv':
+        return this.toCsv(output.columns, output.rows);
+      case 'table':
+        return this.toTable(output.columns, output.rows);
+    }
+  }
+
+  /**
+   * CSV with a header row; fields are quoted when they contain commas, quotes or newlines
+   */
+  static toCsv(columns: string[], rows: Record<string, OutputValue>[]): string {
+    const escape = (value: OutputValue) => {
+      const text = value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [columns, ...rows.map(row => columns.map(column => row[column]))]
+      .map(cells => cells.map(escape).join(','))
+      .join('\n');
+  }
+
+  /**
+   * Plain-text table with aligned columns; long cells are cut at 80 characters
+   */
+  static toTable(columns: string[], rows: Record<string, OutputValue>[]): string {
+    const cell = (value: OutputValue) => {
+      const text = value === undefined ? '' : String(value).replace(/\s+/g, ' ');
+      return text.length > TABLE_CELL_WIDTH ? `${text.substring(0, TABLE_CELL_WIDTH - 1)}…` : text;
+    };
+
+    const cells = rows.map(row => columns.map(column => cell(row[column])));
+    const widths = columns.map((column, index) => Math.max(column.length, ...cells.map(row => row[index].length)));
+    const line = (values: string[]) => values.map((value, index) => value.padEnd(widths[index])).join('  ').trimEnd();
+
+    return [
+      line(columns),
+      line(widths.map(width => '-'.repeat(width))),
+      ...cells.map(line)
+    ].join('\n');
+  }
+
+  /**
+   * `search`: one record per matching log, one row per matching line
+   */
+  static searchResults(searchText: string, matchingResults: SearchResult[], totalLogsSearched: number): FormattedOutput {
+    const results = matchingResults.map(result => this.searchResult(result));
+    const multiOrg = results.some(result => result.org);
+    const userNames = results.some(result => result.log.LogUser);
+
+    return {
+      document: { searchText, totalLogsSearched, matchingLogs: results.length, results },
+      records: results,
+      columns: [...(multiOrg ? ['org'] : []), 'logId', 'lastModified', 'userId', ...(userNames ? ['username'] : []), 'operation', 'status', 'lineNumber', 'matchedText', 'line'],
+      rows: results.flatMap(result => result.matches.map(match => ({
+        org: result.org,
+        logId: result.log.Id,
+        lastModified: result.log.LastModifiedDate,
+        userId: result.log.LogUserId,
+        username: result.log.LogUser?.Username,
+        operation: result.log.Operation,
+        status: result.log.Status,
+        lineNumber: match.lineNumber,
+        matchedText: match.spans?.map(span => span.text).join(' | '),
+        line: match.line
+      })))
+    };
+  }
+
+  /**
+   * `search --download`: the DownloadResult as a single record
+   */
+  static downloadResult(result: DownloadResult): FormattedOutput {
+    return {
+      document: result,
+      records: [result],
+      columns: ['searchText', 'totalLogsSearched', 'matchingLogs', 'downloadedLogs', 'failedDownloads', 'downloadPath', 'estimatedSize'],
+      rows: [{ ...result, failedDownloads: result.failedDownloads.join(';') }]
+    };
+  }
+
+  /**
+   * `multi-search`: one record and row per pattern and matching log
+   */
+  static multiSearchResults(results: Map<string, SearchResult[]>): FormattedOutput {
+    const entries = Array.from(results.entries(), ([pattern, patternResults]): [string, SearchResult[]] =>
+      [pattern, patternResults.map(result => this.searchResult(result))]);
+    const userNames = entries.some(([, patternResults]) => patternResults.some(result => result.log.LogUser));
+
+    return {
+      document: {
+        patterns: entries.map(([pattern, patternResults]) => ({ pattern, matchingLogs: patternResults.length, results: patternResults }))
+      },
+      records: entries.flatMap(([pattern, patternResults]) => patternResults.map(result => ({ pattern, ...result }))),
+      columns: ['pattern', 'logId', 'lastModified', 'userId', ...(userNames ? ['username'] : []), 'operation', 'status', 'matches'],
+      rows: entries.flatMap(([pattern, patternResults]) => patternResults.map(result => ({
+        pattern,
+        logId: result.log.Id,
+        lastModified: result.log.LastModifiedDate,
+        userId: result.log.LogUserId,
+        username: result.log.LogUser?.Username,
+        operation: result.log.Operation,
+        status: result.log.Status,
+        matches: result.matches.length
+      })))
+    };
+  }
+
+  /**
+   * `list`: DebugLog records with their Salesforce field names, and the user's name as `LogUser.Name`/`LogUser.Username`
+   */
+  static logList(debugLogs: DebugLog[]): FormattedOutput {
+    const logs = debugLogs.map(log => this.plainLog(log));
+    const userNames = logs.some(log => log.LogUser);
+
+    return {
+      document: { totalLogs: logs.length, logs },
+      records: logs,
+      columns: userNames ? [...APEX_LOG_FIELDS, 'LogUser.Name', 'LogUser.Username'] : APEX_LOG_FIELDS,
+      rows: logs.map(({ LogUser, ...log }) => ({ ...log, 'LogUser.Name': LogUser?.Name, 'LogUser.Username': LogUser?.Username }))
+    };
+  }
+
+  /**
+   * One search result as written to the output, e.g. per line of streamed NDJSON
+   */
+  static searchResult(result: SearchResult): SearchResult {
+    return { ...result, log: this.plainLog(result.log) };
+  }
+
+  /**
+   * `count`: the summary as one record; rows break it down per dimension
+   */
+  static countSummary(summary: LogCountSummary): FormattedOutput {
+    const rows: Record<string, OutputValue>[] = [{ dimension: 'total', key: '', logs: summary.totalLogs }];
+    if (summary.breakdown) {
+      const dimensions: [string, Record<string, number>][] = [
+        ['user', summary.breakdown.byUser],
+        ['operation', summary.breakdown.byOperation],
+        ['status', summary.breakdown.byStatus]
+      ];
+      dimensions.forEach(([dimension, counts]) => {
+        Object.entries(counts)
+          .sort(([, a], [, b]) => b - a)
+          .forEach(([key, logs]) => rows.push({ dimension, key, username: dimension === 'user' ? summary.breakdown?.users?.[key]?.Username : undefined, logs }));
+      });
+    }
+    const userNames = Object.keys(summary.breakdown?.users || {}).length > 0;
+
+    return {
+      document: summary,
+      records: [summary],
+      columns: userNames ? ['dimension', 'key', 'username', 'logs'] : ['dimension', 'key', 'logs'],
+      rows
+    };
+  }
+
+  /**
+   * `count --orgs`: one record and row per org
+   */
+  static orgCountSummaries(summaries: LogCountSummary[]): FormattedOutput {
+    return {
+      document: { totalLogs: summaries.reduce((sum, summary) => sum + summary.totalLogs, 0), orgs: summaries },
+      records: summaries,
+      columns: ['org', 'totalLogs', 'totalBytes', 'oldest', 'newest', 'truncated'],
+      rows: summaries.map(({ breakdown, ...summary }) => summary)
+    };
+  }
+
+  /**
+   * `delete`: one record and row per requested log ID
+   */
+  static deleteOutcome(outcome: DeleteOutcome): FormattedOutput {
+    const deleted = new Set(outcome.deleted);
+    const failed = new Set(outcome.failed);
+    const status = (logId: string) => {
+      if (outcome.dryRun) {
+        return 'would-delete';
+      }
+      return deleted.has(logId) ? 'deleted' : failed.has(logId) ? 'failed' : 'skipped';
+    };
+    const records = outcome.requested.map(logId => ({ logId, status: status(logId) }));
+
+    return {
+      document: outcome,
+      records,
+      columns: ['logId', 'status'],
+      rows: records
+    };
+  }
+
+  /**
+   * Drop the `attributes` object (type and URL) that the API adds to every record
+   */
+  private static plainLog(log: DebugLog): DebugLog {
+    const { attributes, ...fields } = log as DebugLog & { attributes?: unknown };
+    return fields;
+  }
+}
@@ -0,0 +1,158 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OrgProfile, ProfileConfigFile } from './types';
+
+export const PROFILE_CONFIG_FILE = '.sfdebugrc';
+
+// Settings holding a single string, which may reference environment variables
+type StringProfileKey = { [K in keyof OrgProfile]-?: OrgProfile[K] extends string | undefined ? K : never }[keyof OrgProfile];
+
+const STRING_PROFILE_KEYS: StringProfileKey[] = [
+  'instanceUrl', 'apiVersion', 'sessionToken', 'targetOrg', 'clientId', 'clientSecret',
+  'refreshToken', 'username', 'privateKey', 'loginUrl', 'outputDir'
+];
+const PROFILE_KEYS: (keyof OrgProfile)[] = [...STRING_PROFILE_KEYS, 'maxResults', 'excludeUsers'];
+
+/**
+ * Named org profiles from a `.sfdebugrc` JSON file.
+ *
+ * The file is looked up from the working directory upwards, then in the home directory.
+ * String values may reference environment variables as `${NAME}`, so tokens and
+ * secrets can stay out of a file that is checked in with the project.
+ */
+export class ProfileConfig {
+  readonly filePath: string;
+  private config: ProfileConfigFile;
+
+  private constructor(filePath: string, config: ProfileConfigFile) {
+    this.filePath = filePath;
+    this.config = config;
+  }
+
+  /**
+   * Find the nearest config file, or undefined when there is none
+   */
+  static find(startDir: string = process.cwd()): string | undefined {
+    let dir = path.resolve(startDir);
+    while (true) {
+      const candidate = path.join(dir, PROFILE_CONFIG_FILE);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+
+    const homeFile = path.join(os.homedir(), PROFILE_CONFIG_FILE);
+    return fs.existsSync(homeFile) ? homeFile : undefined;
+  }
+
+  /**
+   * Load and validate a config file
+   */
+  static load(filePath: string): ProfileConfig {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read ${filePath}: ${error}`);
+    }
+
+    if (!isRecord(parsed) || !isRecord(parsed.orgs)) {
+      throw new Error(`Invalid ${filePath}: expected an "orgs" object mapping profile names to settings`);
+    }
+    const { orgs, defaultOrg } = parsed;
+
+    Object.entries(orgs).forEach(([name, profile]) => {
+      if (!isRecord(profile)) {
+        throw new Error(`Invalid profile "${name}" in ${filePath}: expected an object of settings`);
+      }
+      ProfileConfig.validateProfile(name, profile, filePath);
+    });
+
+    if (defaultOrg !== undefined && (typeof defaultOrg !== 'string' || !orgs[defaultOrg])) {
+      throw new Error(`Invalid ${filePath}: defaultOrg "${defaultOrg}" is not one of the profiles`);
+    }
+
+    // Every profile was checked above to hold only known settings of the right type
+    return new ProfileConfig(filePath, {
+      defaultOrg: defaultOrg as string | undefined,
+      orgs: orgs as Record<string, OrgProfile>
+    });
+  }
+
+  get profileNames(): string[] {
+    return Object.keys(this.config.orgs);
+  }
+
+  get defaultProfileName(): string | undefined {
+    return this.config.defaultOrg;
+  }
+
+  /**
+   * Get a profile with environment variable references expanded
+   */
+  getProfile(name: string): OrgProfile {
+    const profile = this.config.orgs[name];
+    if (!profile) {
+      throw new Error(`Unknown org profile "${name}" in ${this.filePath}. Available profiles: ${this.profileNames.join(', ') || 'none'}`);
+    }
+
+    const expanded: OrgProfile = { ...profile };
+    STRING_PROFILE_KEYS.forEach(key => {
+      const value = profile[key];
+      if (value !== undefined) {
+        expanded[key] = this.expandEnv(value, name);
+      }
+    });
+
+    // Relative paths are relative to the config file, not to wherever the command runs
+    const baseDir = path.dirname(this.filePath);
+    if (expanded.privateKey) {
+      expanded.privateKey = path.resolve(baseDir, expanded.privateKey);
+    }
+    if (expanded.outputDir) {
+      expanded.outputDir = path.resolve(baseDir, expanded.outputDir);
+    }
+
+    return expanded;
+  }
+
+  private static validateProfile(name: string, profile: Record<string, unknown>, filePath: string): void {
+    const unknown = Object.keys(profile).filter(key => !PROFILE_KEYS.includes(key as keyof OrgProfile));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid profile "${name}" in ${filePath}: unknown setting(s) ${unknown.join(', ')}`);
+    }
+
+    const notStrings = STRING_PROFILE_KEYS.filter(key => profile[key] !== undefined && typeof profile[key] !== 'string');
+    if (notStrings.length > 0) {
+      throw new Error(`Invalid profile "${name}" in ${filePath}: ${notStrings.join(', ')} must be text`);
+    }
+
+    const { maxResults, excludeUsers } = profile;
+    if (maxResults !== undefined && (typeof maxResults !== 'number' || !Number.isInteger(maxResults) || maxResults <= 0)) {
+      throw new Error(`Invalid profile "${name}" in ${filePath}: maxResults must be a positive integer`);
+    }
+    if (excludeUsers !== undefined && (!Array.isArray(excludeUsers) || !excludeUsers.every(userId => typeof userId === 'string'))) {
+      throw new Error(`Invalid profile "${name}" in ${filePath}: excludeUsers must be a list of user IDs`);
+    }
+  }
+
+  private expandEnv(value: string, profileName: string): string {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, variable) => {
+      const resolved = process.env[variable];
+      if (resolved === undefined) {
+        throw new Error(`Profile "${profileName}" in ${this.filePath} references \${${variable}}, which is not set`);
+      }
+      return resolved;
+    });
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
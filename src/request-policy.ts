@@ -0,0 +1,175 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponse, GenericAbortSignal, InternalAxiosRequestConfig } from 'axios';
+import { ApiCallStats, ApiUsage, Logger, RequestPolicyOptions } from './types';
+import { RateLimitError } from './errors';
+import { sleep } from './sleep';
+
+export const DEFAULT_MAX_RETRIES = 4;
+export const DEFAULT_MAX_API_USAGE_PERCENT = 90;
+
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30000;
+// Requests are spaced out over the last percentage points before the usage limit
+const SLOW_DOWN_MARGIN_PERCENT = 10;
+const MAX_THROTTLE_DELAY_MS = 2000;
+
+const RETRYABLE_STATUSES = [429, 503];
+const RETRYABLE_NETWORK_ERRORS = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN'];
+// A request cut off mid-flight may have been applied, so only these are safe to send again
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'delete'];
+
+// e.g. "api-usage=1234/15000" or "api-usage=1234/15000, per-app-api-usage=17/250(appName=sf-cli)"
+const API_USAGE_PATTERN = /(?:^|[\s,])api-usage=(\d+)\/(\d+)/;
+
+type PolicyRequest = InternalAxiosRequestConfig & { retryAttempt?: number };
+
+/**
+ * Retries and API allowance pacing for the requests a client sends to one org.
+ *
+ * 429, 503, REQUEST_LIMIT_EXCEEDED and dropped connections are retried with exponential
+ * backoff and jitter (honouring Retry-After). The org's daily API usage is read from the
+ * `Sforce-Limit-Info` header of every response; close to the configured share of the
+ * allowance requests are slowed down, and once it is reached no more requests are sent.
+ */
+export class RequestPolicy {
+  private maxRetries: number;
+  private maxApiUsagePercent: number;
+  private requests = 0;
+  private retries = 0;
+  private usage?: ApiUsage;
+  private logger?: Logger;
+
+  constructor(options: RequestPolicyOptions = {}, logger?: Logger) {
+    this.logger = logger;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxApiUsagePercent = options.maxApiUsagePercent ?? DEFAULT_MAX_API_USAGE_PERCENT;
+
+    if (!Number.isInteger(this.maxRetries) || this.maxRetries < 0) {
+      throw new Error(`Invalid number of retries: ${options.maxRetries}`);
+    }
+    if (!Number.isFinite(this.maxApiUsagePercent) || this.maxApiUsagePercent <= 0 || this.maxApiUsagePercent > 100) {
+      throw new Error(`Invalid API usage limit: ${options.maxApiUsagePercent} (expected a percentage between 0 and 100)`);
+    }
+  }
+
+  /**
+   * Apply the policy to every request sent through the client
+   */
+  install(client: AxiosInstance): void {
+    client.interceptors.request.use(async request => {
+      await this.throttle(request.signal);
+      this.requests++;
+      return request;
+    });
+    client.interceptors.response.use(
+      response => {
+        this.recordUsage(response);
+        return response;
+      },
+      error => this.retry(client, error)
+    );
+  }
+
+  /**
+   * Requests sent and retried so far, and the org's last reported daily API usage
+   */
+  get stats(): ApiCallStats {
+    return { requests: this.requests, retries: this.retries, usage: this.usage && { ...this.usage } };
+  }
+
+  /**
+   * Wait or refuse to send when the org is close to the usage limit
+   */
+  private async throttle(signal?: GenericAbortSignal): Promise<void> {
+    if (!this.usage || this.usage.max === 0) {
+      return;
+    }
+
+    const percent = (this.usage.used / this.usage.max) * 100;
+    if (percent >= this.maxApiUsagePercent) {
+      throw new RateLimitError(
+        `Stopped at ${this.usage.used}/${this.usage.max} daily API calls (${percent.toFixed(1)}%), ` +
+        `the ${this.maxApiUsagePercent}% limit; raise it with --max-api-usage to continue`
+      );
+    }
+
+    const slowDownFrom = this.maxApiUsagePercent - SLOW_DOWN_MARGIN_PERCENT;
+    if (percent >= slowDownFrom) {
+      await this.sleep(MAX_THROTTLE_DELAY_MS * (percent - slowDownFrom) / SLOW_DOWN_MARGIN_PERCENT, signal);
+    }
+  }
+
+  private async retry(client: AxiosInstance, error: unknown): Promise<AxiosResponse> {
+    if (!axios.isAxiosError(error) || !error.config) {
+      throw error;
+    }
+    if (error.response) {
+      this.recordUsage(error.response);
+    }
+
+    const request = error.config as PolicyRequest;
+    const reason = this.retryReason(error, request);
+    const attempt = (request.retryAttempt || 0) + 1;
+    if (!reason || attempt > this.maxRetries) {
+      throw error;
+    }
+
+    request.retryAttempt = attempt;
+    this.retries++;
+
+    const delay = this.retryDelay(error, attempt);
+    this.logger?.warn(`⏳ ${reason}, retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt}/${this.maxRetries})...`);
+    await this.sleep(delay, request.signal);
+
+    // Sent with an aborted signal, the request fails straight away as cancelled
+    return client.request(request);
+  }
+
+  /**
+   * Why the request is worth sending again, or undefined when it isn't
+   */
+  private retryReason(error: AxiosError, request: PolicyRequest): string | undefined {
+    const status = error.response?.status;
+    if (status !== undefined && RETRYABLE_STATUSES.includes(status)) {
+      return `HTTP ${status}`;
+    }
+
+    const body = error.response?.data;
+    if (Array.isArray(body) && body.some(entry => entry?.errorCode === 'REQUEST_LIMIT_EXCEEDED')) {
+      return 'REQUEST_LIMIT_EXCEEDED';
+    }
+
+    if (!error.response && error.code && RETRYABLE_NETWORK_ERRORS.includes(error.code)
+      && IDEMPOTENT_METHODS.includes((request.method || 'get').toLowerCase())) {
+      return `Connection error ${error.code}`;
+    }
+
+    return undefined;
+  }
+
+  private retryDelay(error: AxiosError, attempt: number): number {
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+    }
+
+    // Exponential backoff with jitter, so parallel workers don't retry in lockstep
+    const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+    return Math.round(backoff / 2 + Math.random() * backoff / 2);
+  }
+
+  private recordUsage(response: AxiosResponse): void {
+    const limitInfo = response.headers?.['sforce-limit-info'];
+    const match = typeof limitInfo === 'string' ? API_USAGE_PATTERN.exec(limitInfo) : null;
+    if (match) {
+      this.usage = { used: parseInt(match[1], 10), max: parseInt(match[2], 10) };
+    }
+  }
+
+  /**
+   * Wait for the given time, returning early if the request's signal is aborted
+   */
+  private sleep(ms: number, signal?: GenericAbortSignal): Promise<void> {
+    // Requests from this library carry a standard AbortSignal
+    return sleep(ms, signal instanceof AbortSignal ? signal : undefined);
+  }
+}
@@ -1,99 +1,156 @@
-import axios, { AxiosInstance } from 'axios';
-import { SalesforceConfig, DebugLog, DebugLogBody } from './types';
-
-export class SalesforceClient {
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { SalesforceConfig, DebugLog, DebugLogBody, DebugLogPage, QueryResponse, PagedResult, ApiCallStats, Logger, LibraryEvents, StreamOptions, SalesforceUser } from './types';
+import { ApexLogQuery, escapeSoqlString } from './apex-log-query';
+import { LogBodyCache } from './log-body-cache';
+import { UserCache } from './user-cache';
+import { LogSource } from './log-source';
+import { OAuthTokenProvider } from './oauth';
+import { RequestPolicy } from './request-policy';
+import { SalesforceError, AbortError } from './errors';
+
+type RetriableRequest = InternalAxiosRequestConfig & { retriedAfterRefresh?: boolean };
+
+export class SalesforceClient implements LogSource {
   private client: AxiosInstance;
   private config: SalesforceConfig;
+  private bodyCache?: LogBodyCache;
+  private userCache?: UserCache;
+  private users = new Map<string, SalesforceUser>();
+  private userNamesUnavailable = false;
+  private tokenProvider?: OAuthTokenProvider;
+  private pendingRefresh?: Promise<void>;
+  private requestPolicy: RequestPolicy;
+  private logger?: Logger;
+  private events: LibraryEvents;
 
-  constructor(config: SalesforceConfig) {
+  /**
+   * Progress and warnings go to `config.logger` and `config.events`; by default nothing is printed.
+   * With `config.userNames`, every log returned has `LogUser` set to the name of the user who wrote it.
+   */
+  constructor(config: SalesforceConfig, bodyCache?: LogBodyCache, userCache?: UserCache) {
     this.config = {
       ...config,
       apiVersion: config.apiVersion || '58.0'
     };
+    this.bodyCache = bodyCache;
+    this.userCache = userCache;
+    this.tokenProvider = config.auth ? new OAuthTokenProvider(config.auth) : undefined;
+    this.logger = config.logger;
+    this.events = config.events || {};
+    this.requestPolicy = new RequestPolicy(config.requestPolicy, config.logger);
+
+    if (!this.config.sessionToken && !this.tokenProvider) {
+      throw new Error('Missing credentials: provide a session token or an OAuth configuration');
+    }
 
     this.client = axios.create({
       baseURL: `${this.config.instanceUrl}/services/data/v${this.config.apiVersion}`,
       headers: {
-        'Authorization': `Bearer ${this.config.sessionToken}`,
         'Content-Type': 'application/json'
       }
     });
+
+    this.requestPolicy.install(this.client);
+
+    // With OAuth the first token is fetched lazily, and every request picks up the latest token
+    this.client.interceptors.request.use(async request => {
+      if (!this.config.sessionToken) {
+        await this.refreshAccessToken();
+      }
+      request.headers.Authorization = `Bearer ${this.config.sessionToken}`;
+      return request;
+    });
+    this.client.interceptors.response.use(undefined, error => this.retryAfterRefresh(error));
+  }
+
+  /**
+   * Instance URL this client talks to, e.g. to tell orgs apart in local files
+   */
+  get instanceUrl(): string {
+    return this.config.instanceUrl;
+  }
+
+  /**
+   * API calls sent by this client and the org's daily API usage as last reported
+   */
+  get apiStats(): ApiCallStats {
+    return this.requestPolicy.stats;
   }
 
   /**
    * Retrieve all debug logs
    */
   async getDebugLogs(limit: number = 100): Promise<DebugLog[]> {
-    try {
-      const response = await this.client.get('/tooling/query/', {
-        params: {
-          q: `SELECT Id, LogUserId, LogLength, LastModifiedDate, Request, Operation, Application, Status, DurationMilliseconds, StartTime, Location FROM ApexLog ORDER BY LastModifiedDate DESC LIMIT ${limit}`
-        }
-      });
+    return this.queryDebugLogs(new ApexLogQuery(), limit);
+  }
 
-      return response.data.records;
+  /**
+   * Retrieve debug logs matching an ApexLogQuery, newest first
+   */
+  async queryDebugLogs(query: ApexLogQuery, limit: number = 100): Promise<DebugLog[]> {
+    try {
+      const response = await this.query<DebugLog>(query.toSoql(limit));
+      return await this.withUserNames(response.records);
     } catch (error) {
-      throw new Error(`Failed to retrieve debug logs: ${error}`);
+      throw SalesforceError.from(error, 'Failed to retrieve debug logs');
     }
   }
 
   /**
-   * Get debug log body content by ID
+   * Get debug log metadata for specific log IDs
    */
-  async getDebugLogBody(logId: string): Promise<string> {
-    try {
-      const response = await this.client.get(`/tooling/sobjects/ApexLog/${logId}/Body`);
-      return response.data;
-    } catch (error) {
-      throw new Error(`Failed to retrieve debug log body for ID ${logId}: ${error}`);
+  async getDebugLogsByIds(logIds: string[]): Promise<DebugLog[]> {
+    const logs: DebugLog[] = [];
+    const batchSize = 200; // Keep the IN list well under the SOQL length limit
+
+    for (let i = 0; i < logIds.length; i += batchSize) {
+      const batch = logIds.slice(i, i + batchSize);
+      logs.push(...await this.queryDebugLogs(new ApexLogQuery().byIds(batch), batch.length));
     }
+
+    return logs;
   }
 
   /**
-   * Get debug logs filtered by date range
+   * Get debug log body content by ID
    */
-  async getDebugLogsByDateRange(dateFrom?: string, dateTo?: string, limit: number = 100): Promise<DebugLog[]> {
-    let whereClause = '';
-    
-    if (dateFrom || dateTo) {
-      const conditions = [];
-      if (dateFrom) {
-        conditions.push(`LastModifiedDate >= ${dateFrom}`);
-      }
-      if (dateTo) {
-        conditions.push(`LastModifiedDate <= ${dateTo}`);
-      }
-      whereClause = ` WHERE ${conditions.join(' AND ')}`;
+  async getDebugLogBody(logId: string, signal?: AbortSignal): Promise<string> {
+    const cached = this.bodyCache?.get(this.config.instanceUrl, logId);
+    if (cached !== undefined) {
+      return cached;
     }
 
+    let body: string;
     try {
-      const response = await this.client.get('/tooling/query/', {
-        params: {
-          q: `SELECT Id, LogUserId, LogLength, LastModifiedDate, Request, Operation, Application, Status, DurationMilliseconds, StartTime, Location FROM ApexLog${whereClause} ORDER BY LastModifiedDate DESC LIMIT ${limit}`
-        }
-      });
+      const response = await this.client.get(`/tooling/sobjects/ApexLog/${logId}/Body`, { signal });
+      body = response.data;
+    } catch (error) {
+      throw SalesforceError.from(error, `Failed to retrieve debug log body for ID ${logId}`);
+    }
 
-      return response.data.records;
+    try {
+      this.bodyCache?.set(this.config.instanceUrl, logId, body);
     } catch (error) {
-      throw new Error(`Failed to retrieve debug logs by date range: ${error}`);
+      // The cache only saves API calls, so a full or unwritable cache directory is not fatal
+      this.logger?.warn(`Failed to cache debug log body for ID ${logId}: ${error}`);
+      this.events.onFailure?.({ operation: 'cache', logId, error });
     }
+
+    return body;
+  }
+
+  /**
+   * Get debug logs filtered by date range
+   */
+  async getDebugLogsByDateRange(dateFrom?: string, dateTo?: string, limit: number = 100): Promise<DebugLog[]> {
+    return this.queryDebugLogs(this.dateRangeQuery(dateFrom, dateTo), limit);
   }
 
   /**
    * Get debug logs for specific user
    */
   async getDebugLogsByUser(userId: string, limit: number = 100): Promise<DebugLog[]> {
-    try {
-      const response = await this.client.get('/tooling/query/', {
-        params: {
-          q: `SELECT Id, LogUserId, LogLength, LastModifiedDate, Request, Operation, Application, Status, DurationMilliseconds, StartTime, Location FROM ApexLog WHERE LogUserId = '${userId}' ORDER BY LastModifiedDate DESC LIMIT ${limit}`
-        }
-      });
-
-      return response.data.records;
-    } catch (error) {
-      throw new Error(`Failed to retrieve debug logs for user ${userId}: ${error}`);
-    }
+    return this.queryDebugLogs(new ApexLogQuery().byUser(userId), limit);
   }
 
   /**
@@ -110,7 +167,8 @@ export class SalesforceClient {
           const body = await this.getDebugLogBody(logId);
           return { logId, body };
         } catch (error) {
-          console.warn(`Failed to retrieve log body for ${logId}: ${error}`);
+          this.logger?.warn(`Failed to retrieve log body for ${logId}: ${error}`);
+          this.events.onFailure?.({ operation: 'retrieve', logId, error });
           return { logId, body: null };
         }
       });
@@ -121,224 +179,320 @@ export class SalesforceClient {
           results.set(logId, body);
         }
       });
-      
-      // Small delay between batches to be respectful to the API
-      if (i + batchSize < logIds.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
     }
     
     return results;
   }
 
   /**
-   * Get ALL debug logs using batching to handle large datasets
+   * Get ALL debug logs, following the query cursor past the SOQL OFFSET cap
    */
   async getAllDebugLogs(maxLogs?: number): Promise<DebugLog[]> {
-    const allLogs: DebugLog[] = [];
-    const batchSize = 200; // Salesforce SOQL limit per query
-    let offset = 0;
-    let hasMore = true;
-
-    console.log('📦 Fetching logs in batches...');
-
-    while (hasMore && (!maxLogs || allLogs.length < maxLogs)) {
-      try {
-        const remainingLogs = maxLogs ? maxLogs - allLogs.length : batchSize;
-        const currentBatchSize = Math.min(batchSize, remainingLogs);
-        
-        const response = await this.client.get('/tooling/query/', {
-          params: {
-            q: `SELECT Id, LogUserId, LogLength, LastModifiedDate, Request, Operation, Application, Status, DurationMilliseconds, StartTime, Location FROM ApexLog ORDER BY LastModifiedDate DESC LIMIT ${currentBatchSize} OFFSET ${offset}`
-          }
-        });
-
-        const batch = response.data.records;
-        allLogs.push(...batch);
+    const { records } = await this.queryAllDebugLogs(new ApexLogQuery(), maxLogs);
+    return records;
+  }
 
-        console.log(`   Batch ${Math.floor(offset / batchSize) + 1}: ${batch.length} logs (total: ${allLogs.length})`);
+  /**
+   * Get ALL debug logs by user, following the query cursor
+   */
+  async getAllDebugLogsByUser(userId: string, maxLogs?: number): Promise<DebugLog[]> {
+    const { records } = await this.queryAllDebugLogs(new ApexLogQuery().byUser(userId), maxLogs);
+    return records;
+  }
 
-        // Check if we got fewer logs than requested (end of data)
-        hasMore = batch.length === currentBatchSize;
-        offset += batch.length;
+  /**
+   * Get ALL debug logs by date range, following the query cursor
+   */
+  async getAllDebugLogsByDateRange(dateFrom?: string, dateTo?: string, maxLogs?: number): Promise<DebugLog[]> {
+    const { records } = await this.queryAllDebugLogs(this.dateRangeQuery(dateFrom, dateTo), maxLogs);
+    return records;
+  }
 
-        // Small delay between batches to be API-friendly
-        if (hasMore) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+  /**
+   * Page through every ApexLog matching the query.
+   *
+   * Collects the pages of streamDebugLogs. A failure after the first page stops
+   * paging and is reported as a truncated result instead of being swallowed.
+   */
+  async queryAllDebugLogs(query: ApexLogQuery, maxLogs?: number): Promise<PagedResult<DebugLog>> {
+    const records: DebugLog[] = [];
+    let totalSize = 0;
+    let pages = 0;
+    let truncationReason: string | undefined;
 
-      } catch (error) {
-        console.warn(`Failed to fetch batch at offset ${offset}: ${error}`);
-        break;
+    try {
+      for await (const page of this.streamDebugLogs(query, { maxLogs })) {
+        records.push(...page.records);
+        totalSize = page.totalSize;
+        pages++;
+      }
+    } catch (error) {
+      if (pages === 0) {
+        throw error;
       }
+      truncationReason = error instanceof Error ? error.message : `${error}`;
+      this.events.onFailure?.({ operation: 'query', error });
+      this.logger?.warn(`⚠️  Result set cut short after ${records.length} of ${totalSize} logs: ${truncationReason}`);
     }
 
-    console.log(`✅ Fetched ${allLogs.length} total logs`);
-    return allLogs;
+    return {
+      records,
+      totalSize,
+      truncated: truncationReason !== undefined,
+      truncationReason
+    };
   }
 
   /**
-   * Get ALL debug logs by user using batching
+   * Stream every ApexLog matching the query, one page at a time, so only a page is held in memory.
+   *
+   * Follows `nextRecordsUrl` (queryMore) while Salesforce hands one out, and falls
+   * back to keyset paging on LastModifiedDate/Id when there is no cursor or it has
+   * expired. Aborting the signal cancels the request in flight and ends the stream
+   * with an AbortError.
    */
-  async getAllDebugLogsByUser(userId: string, maxLogs?: number): Promise<DebugLog[]> {
-    const allLogs: DebugLog[] = [];
-    const batchSize = 200;
-    let offset = 0;
-    let hasMore = true;
+  async *streamDebugLogs(query: ApexLogQuery, options: StreamOptions = {}): AsyncGenerator<DebugLogPage> {
+    const { maxLogs, signal } = options;
+    AbortError.throwIfAborted(signal);
 
-    console.log(`📦 Fetching logs for user ${userId} in batches...`);
-
-    while (hasMore && (!maxLogs || allLogs.length < maxLogs)) {
-      try {
-        const remainingLogs = maxLogs ? maxLogs - allLogs.length : batchSize;
-        const currentBatchSize = Math.min(batchSize, remainingLogs);
+    this.logger?.info('📦 Fetching logs in batches...');
 
-        const response = await this.client.get('/tooling/query/', {
-          params: {
-            q: `SELECT Id, LogUserId, LogLength, LastModifiedDate, Request, Operation, Application, Status, DurationMilliseconds, StartTime, Location FROM ApexLog WHERE LogUserId = '${userId}' ORDER BY LastModifiedDate DESC LIMIT ${currentBatchSize} OFFSET ${offset}`
-          }
-        });
+    let response: QueryResponse<DebugLog>;
+    try {
+      response = await this.query<DebugLog>(query.toSoql(maxLogs), signal);
+    } catch (error) {
+      throw SalesforceError.from(error, 'Failed to retrieve debug logs');
+    }
+    const totalSize = maxLogs ? Math.min(response.totalSize, maxLogs) : response.totalSize;
 
-        const batch = response.data.records;
-        allLogs.push(...batch);
+    let fetched = 0;
+    let oldest: DebugLog | undefined;
+    for (let page = 1; ; page++) {
+      const remaining = maxLogs ? maxLogs - fetched : response.records.length;
+      const records = response.records.slice(0, remaining);
+      fetched += records.length;
+      oldest = records[records.length - 1] || oldest;
 
-        console.log(`   Batch ${Math.floor(offset / batchSize) + 1}: ${batch.length} logs (total: ${allLogs.length})`);
+      this.logger?.info(`   Batch ${page}: ${response.records.length} logs (total: ${fetched})`);
+      this.events.onBatchFetched?.({ page, records: response.records.length, fetched, totalSize });
 
-        hasMore = batch.length === currentBatchSize;
-        offset += batch.length;
+      yield { records: await this.withUserNames(records), page, totalSize };
 
-        if (hasMore) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+      if (response.done || !oldest || (maxLogs && fetched >= maxLogs)) {
+        break;
+      }
 
+      AbortError.throwIfAborted(signal);
+      try {
+        response = await this.fetchNextDebugLogPage(response, query, oldest, maxLogs ? maxLogs - fetched : undefined, signal);
       } catch (error) {
-        console.warn(`Failed to fetch batch at offset ${offset}: ${error}`);
-        break;
+        throw SalesforceError.from(error, `Failed to retrieve debug logs after ${fetched} records`);
       }
     }
 
-    console.log(`✅ Fetched ${allLogs.length} total logs for user`);
-    return allLogs;
+    this.logger?.info(`✅ Fetched ${fetched} total logs`);
   }
 
   /**
-   * Get ALL debug logs by date range using batching
+   * Fetch the page after `current`, preferring the server cursor over keyset paging
    */
-  async getAllDebugLogsByDateRange(dateFrom?: string, dateTo?: string, maxLogs?: number): Promise<DebugLog[]> {
-    const allLogs: DebugLog[] = [];
-    const batchSize = 200;
-    let offset = 0;
-    let hasMore = true;
-
-    let whereClause = '';
-    if (dateFrom || dateTo) {
-      const conditions = [];
-      if (dateFrom) {
-        conditions.push(`LastModifiedDate >= ${dateFrom}`);
+  private async fetchNextDebugLogPage(
+    current: QueryResponse<DebugLog>,
+    query: ApexLogQuery,
+    oldest: DebugLog,
+    remaining?: number,
+    signal?: AbortSignal
+  ): Promise<QueryResponse<DebugLog>> {
+    if (current.nextRecordsUrl) {
+      try {
+        return await this.queryMore<DebugLog>(current.nextRecordsUrl, signal);
+      } catch (error) {
+        if (axios.isCancel(error)) {
+          throw error;
+        }
+        this.logger?.warn(`Query cursor failed, switching to keyset paging: ${error}`);
       }
-      if (dateTo) {
-        conditions.push(`LastModifiedDate <= ${dateTo}`);
+    }
+
+    const keysetQuery = query.clone().olderThan(oldest);
+    return this.query<DebugLog>(keysetQuery.toSoql(remaining), signal);
+  }
+
+  /**
+   * Look up users by ID, from memory, the user cache or the org, and return those found keyed by ID
+   */
+  async getUsersByIds(userIds: string[]): Promise<Map<string, SalesforceUser>> {
+    const wanted = Array.from(new Set(userIds.filter(userId => userId)));
+    const missing = wanted.filter(userId => {
+      const cached = this.users.get(userId) || this.userCache?.get(this.config.instanceUrl, userId);
+      if (cached) {
+        this.users.set(userId, cached);
       }
-      whereClause = ` WHERE ${conditions.join(' AND ')}`;
+      return !cached;
+    });
+
+    const batchSize = 200; // Keep the IN list well under the SOQL length limit
+    for (let i = 0; i < missing.length; i += batchSize) {
+      const batch = missing.slice(i, i + batchSize);
+      this.rememberUsers(await this.queryUsers(`Id IN (${batch.map(userId => `'${escapeSoqlString(userId)}'`).join(', ')})`));
     }
 
-    console.log(`📦 Fetching logs by date range in batches...`);
+    const found = new Map<string, SalesforceUser>();
+    wanted.forEach(userId => {
+      const user = this.users.get(userId);
+      if (user) {
+        found.set(userId, user);
+      }
+    });
+    return found;
+  }
 
-    while (hasMore && (!maxLogs || allLogs.length < maxLogs)) {
-      try {
-        const remainingLogs = maxLogs ? maxLogs - allLogs.length : batchSize;
-        const currentBatchSize = Math.min(batchSize, remainingLogs);
+  /**
+   * Find users whose username, email or full name is one of the terms (case-insensitive)
+   */
+  async findUsers(terms: string[]): Promise<SalesforceUser[]> {
+    if (terms.length === 0) {
+      return [];
+    }
 
-        const response = await this.client.get('/tooling/query/', {
-          params: {
-            q: `SELECT Id, LogUserId, LogLength, LastModifiedDate, Request, Operation, Application, Status, DurationMilliseconds, StartTime, Location FROM ApexLog${whereClause} ORDER BY LastModifiedDate DESC LIMIT ${currentBatchSize} OFFSET ${offset}`
-          }
-        });
+    const values = terms.map(term => `'${escapeSoqlString(term)}'`).join(', ');
+    const users = await this.queryUsers(`Username IN (${values}) OR Email IN (${values}) OR Name IN (${values})`);
+    this.rememberUsers(users);
+    return users;
+  }
 
-        const batch = response.data.records;
-        allLogs.push(...batch);
+  /**
+   * Set `LogUser` on each log to the name and username of the user who wrote it
+   */
+  async addUserNames(logs: DebugLog[]): Promise<DebugLog[]> {
+    const users = await this.getUsersByIds(logs.map(log => log.LogUserId));
+    logs.forEach(log => {
+      const user = users.get(log.LogUserId);
+      if (user) {
+        log.LogUser = { Name: user.Name, Username: user.Username };
+      }
+    });
+    return logs;
+  }
 
-        console.log(`   Batch ${Math.floor(offset / batchSize) + 1}: ${batch.length} logs (total: ${allLogs.length})`);
+  /**
+   * Add user names when configured to. Logs are still returned without them when the
+   * lookup fails, e.g. because the user can't query User records.
+   */
+  private async withUserNames(logs: DebugLog[]): Promise<DebugLog[]> {
+    if (!this.config.userNames || this.userNamesUnavailable || logs.length === 0) {
+      return logs;
+    }
 
-        hasMore = batch.length === currentBatchSize;
-        offset += batch.length;
+    try {
+      return await this.addUserNames(logs);
+    } catch (error) {
+      this.userNamesUnavailable = true;
+      this.logger?.warn(`Failed to look up user names, showing user IDs only: ${error instanceof Error ? error.message : error}`);
+      this.events.onFailure?.({ operation: 'query', error });
+      return logs;
+    }
+  }
 
-        if (hasMore) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
+  private async queryUsers(condition: string): Promise<SalesforceUser[]> {
+    try {
+      // User is queried through the REST API; the Tooling API only exposes a few of its fields
+      const response = await this.client.get('/query/', {
+        params: { q: `SELECT Id, Name, Username, Email FROM User WHERE ${condition}` }
+      });
+      return (response.data as QueryResponse<SalesforceUser & { attributes?: unknown }>).records
+        .map(({ Id, Name, Username, Email }) => ({ Id, Name, Username, Email }));
+    } catch (error) {
+      throw SalesforceError.from(error, 'Failed to look up users');
+    }
+  }
 
-      } catch (error) {
-        console.warn(`Failed to fetch batch at offset ${offset}: ${error}`);
-        break;
-      }
+  private rememberUsers(users: SalesforceUser[]): void {
+    users.forEach(user => this.users.set(user.Id, user));
+    try {
+      this.userCache?.set(this.config.instanceUrl, users);
+    } catch (error) {
+      // Like the body cache, the user cache only saves API calls
+      this.logger?.warn(`Failed to cache users: ${error}`);
+    }
+  }
+
+  /**
+   * Build a query for an optional LastModifiedDate range
+   */
+  private dateRangeQuery(dateFrom?: string, dateTo?: string): ApexLogQuery {
+    const query = new ApexLogQuery();
+    if (dateFrom) {
+      query.modifiedFrom(dateFrom);
+    }
+    if (dateTo) {
+      query.modifiedTo(dateTo);
     }
+    return query;
+  }
 
-    console.log(`✅ Fetched ${allLogs.length} total logs by date range`);
-    return allLogs;
+  /**
+   * Run a Tooling API query and return the first page of results
+   */
+  private async query<T>(soql: string, signal?: AbortSignal): Promise<QueryResponse<T>> {
+    const response = await this.client.get('/tooling/query/', {
+      params: { q: soql },
+      signal
+    });
+    return response.data;
+  }
+
+  /**
+   * Fetch the next page of a query from its nextRecordsUrl
+   */
+  private async queryMore<T>(nextRecordsUrl: string, signal?: AbortSignal): Promise<QueryResponse<T>> {
+    // nextRecordsUrl is already rooted at /services/data/vXX.X
+    const response = await this.client.get(nextRecordsUrl, {
+      baseURL: this.config.instanceUrl,
+      signal
+    });
+    return response.data;
   }
 
   /**
    * Get total count of debug logs (estimate)
    */
   async getDebugLogCount(userId?: string, dateFrom?: string, dateTo?: string): Promise<number> {
-    try {
-      let whereClause = '';
-      const conditions = [];
-      
-      if (userId) {
-        conditions.push(`LogUserId = '${userId}'`);
-      }
-      if (dateFrom) {
-        conditions.push(`LastModifiedDate >= ${dateFrom}`);
-      }
-      if (dateTo) {
-        conditions.push(`LastModifiedDate <= ${dateTo}`);
-      }
-      
-      if (conditions.length > 0) {
-        whereClause = ` WHERE ${conditions.join(' AND ')}`;
-      }
-
-      const response = await this.client.get('/tooling/query/', {
-        params: {
-          q: `SELECT COUNT(Id) totalCount FROM ApexLog${whereClause}`
-        }
-      });
+    const query = this.dateRangeQuery(dateFrom, dateTo);
+    if (userId) {
+      query.byUser(userId);
+    }
+    return this.countDebugLogs(query);
+  }
 
-      return response.data.records[0]?.totalCount || 0;
+  /**
+   * Count debug logs matching an ApexLogQuery
+   */
+  async countDebugLogs(query: ApexLogQuery): Promise<number> {
+    try {
+      const response = await this.query<{ totalCount: number }>(query.toCountSoql());
+      return response.records[0]?.totalCount || 0;
     } catch (error) {
       // If COUNT() fails, fall back to estimation method
-      console.warn('COUNT query failed, using estimation method');
-      return this.estimateLogCount(userId, dateFrom, dateTo);
+      this.logger?.warn('COUNT query failed, using estimation method');
+      return this.estimateLogCount(query);
     }
   }
 
   /**
    * Estimate log count by sampling
    */
-  private async estimateLogCount(userId?: string, dateFrom?: string, dateTo?: string): Promise<number> {
+  private async estimateLogCount(query: ApexLogQuery): Promise<number> {
     try {
       // Get a sample and estimate based on that
       const sampleSize = 200;
-      let logs: DebugLog[];
-      
-      if (userId) {
-        logs = await this.getDebugLogsByUser(userId, sampleSize);
-      } else if (dateFrom || dateTo) {
-        logs = await this.getDebugLogsByDateRange(dateFrom, dateTo, sampleSize);
-      } else {
-        logs = await this.getDebugLogs(sampleSize);
-      }
-
-      // If we got less than the sample size, that's likely the total
-      if (logs.length < sampleSize) {
-        return logs.length;
-      }
+      const logs = await this.queryDebugLogs(query, sampleSize);
 
-      // Otherwise, this is just an estimate
+      // If we got less than the sample size, that's likely the total;
+      // otherwise, this is just an estimate
       return logs.length;
     } catch (error) {
-      throw new Error(`Failed to estimate log count: ${error}`);
+      throw SalesforceError.from(error, 'Failed to estimate log count');
     }
   }
 
@@ -348,8 +502,9 @@ export class SalesforceClient {
   async deleteDebugLog(logId: string): Promise<void> {
     try {
       await this.client.delete(`/tooling/sobjects/ApexLog/${logId}`);
+      this.bodyCache?.delete(this.config.instanceUrl, logId);
     } catch (error) {
-      throw new Error(`Failed to delete debug log ${logId}: ${error}`);
+      throw SalesforceError.from(error, `Failed to delete debug log ${logId}`);
     }
   }
 
@@ -368,7 +523,8 @@ export class SalesforceClient {
           await this.deleteDebugLog(logId);
           return { logId, success: true };
         } catch (error) {
-          console.warn(`Failed to delete log ${logId}: ${error}`);
+          this.logger?.warn(`Failed to delete log ${logId}: ${error}`);
+          this.events.onFailure?.({ operation: 'delete', logId, error });
           return { logId, success: false };
         }
       });
@@ -381,29 +537,120 @@ export class SalesforceClient {
           failed.push(logId);
         }
       });
-      
-      // Small delay between batches to be respectful to the API
-      if (i + batchSize < logIds.length) {
-        await new Promise(resolve => setTimeout(resolve, 200));
-      }
     }
     
     return { deleted, failed };
   }
 
+  /**
+   * Run an arbitrary Tooling API query and return every record, following the query cursor
+   */
+  async toolingQuery<T>(soql: string): Promise<T[]> {
+    try {
+      let response = await this.query<T>(soql);
+      const records = [...response.records];
+
+      while (!response.done && response.nextRecordsUrl) {
+        response = await this.queryMore<T>(response.nextRecordsUrl);
+        records.push(...response.records);
+      }
+
+      return records;
+    } catch (error) {
+      throw SalesforceError.from(error, 'Failed to run Tooling API query');
+    }
+  }
+
+  /**
+   * Create a Tooling API record and return its ID
+   */
+  async createToolingRecord(sobjectType: string, fields: Record<string, unknown>): Promise<string> {
+    try {
+      const response = await this.client.post(`/tooling/sobjects/${sobjectType}/`, fields);
+      return response.data.id;
+    } catch (error) {
+      throw SalesforceError.from(error, `Failed to create ${sobjectType}`);
+    }
+  }
+
+  /**
+   * Update fields on a Tooling API record
+   */
+  async updateToolingRecord(sobjectType: string, recordId: string, fields: Record<string, unknown>): Promise<void> {
+    try {
+      await this.client.patch(`/tooling/sobjects/${sobjectType}/${recordId}`, fields);
+    } catch (error) {
+      throw SalesforceError.from(error, `Failed to update ${sobjectType} ${recordId}`);
+    }
+  }
+
+  /**
+   * Delete a Tooling API record
+   */
+  async deleteToolingRecord(sobjectType: string, recordId: string): Promise<void> {
+    try {
+      await this.client.delete(`/tooling/sobjects/${sobjectType}/${recordId}`);
+    } catch (error) {
+      throw SalesforceError.from(error, `Failed to delete ${sobjectType} ${recordId}`);
+    }
+  }
+
   /**
    * Test the connection with current session token
    */
   async testConnection(): Promise<boolean> {
     try {
-      await this.client.get('/tooling/query/', {
-        params: {
-          q: 'SELECT Id FROM ApexLog LIMIT 1'
-        }
-      });
+      await this.verifyConnection();
       return true;
     } catch (error) {
       return false;
     }
   }
+
+  /**
+   * Like testConnection, but throws a typed error saying why the connection failed
+   */
+  async verifyConnection(): Promise<void> {
+    try {
+      await this.query('SELECT Id FROM ApexLog LIMIT 1');
+    } catch (error) {
+      throw SalesforceError.from(error, `Failed to connect to ${this.config.instanceUrl}`);
+    }
+  }
+
+  /**
+   * When a request fails with 401 and OAuth is configured, get a new token and retry it once.
+   * Long --all searches and tail sessions then survive session expiry.
+   */
+  private async retryAfterRefresh(error: unknown): Promise<unknown> {
+    const request = axios.isAxiosError(error) ? error.config as RetriableRequest | undefined : undefined;
+    if (!this.tokenProvider || !request || (error as AxiosError).response?.status !== 401 || request.retriedAfterRefresh) {
+      throw error;
+    }
+
+    // Another request may already have refreshed the token while this one was in flight
+    if (request.headers.Authorization === `Bearer ${this.config.sessionToken}`) {
+      this.logger?.info(`🔑 Session expired, requesting a new access token (${this.tokenProvider.describe()})...`);
+      await this.refreshAccessToken();
+    }
+
+    request.retriedAfterRefresh = true;
+    return this.client.request(request);
+  }
+
+  /**
+   * Fetch a new access token; concurrent callers share one token request
+   */
+  private refreshAccessToken(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.tokenProvider!.fetchToken()
+        .then(token => {
+          this.config.sessionToken = token.accessToken;
+        })
+        .finally(() => {
+          this.pendingRefresh = undefined;
+        });
+    }
+    return this.pendingRefresh;
+  }
 }
@@ -0,0 +1,122 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SfCliOrgAuth } from './types';
+import { AuthExpiredError, NotFoundError } from './errors';
+
+export const DEFAULT_SFDX_DIR = path.join(os.homedir(), '.sfdx');
+
+// Client ID the Salesforce CLI uses for its own web and JWT logins
+const SF_CLI_CLIENT_ID = 'PlatformCLI';
+// Encrypted fields look like "<iv><ciphertext>:<auth tag>", all hex
+const ENCRYPTED_VALUE_PATTERN = /^([0-9a-f]+):([0-9a-f]{32})$/i;
+
+/**
+ * Read-only access to the org logins stored by the Salesforce CLI (sf/sfdx).
+ *
+ * Aliases live in `alias.json` and each login in `<username>.json`. Tokens in those
+ * files are encrypted with AES-256-GCM; the key is read from `key.json`, which is
+ * where the CLI keeps it when it uses its file-based keychain (the default on Linux).
+ */
+export class SfCliAuthStore {
+  readonly directory: string;
+  private key?: string;
+
+  constructor(directory: string = DEFAULT_SFDX_DIR) {
+    this.directory = directory;
+  }
+
+  /**
+   * Resolve an alias or username to the stored instance URL and tokens
+   */
+  resolve(aliasOrUsername: string): SfCliOrgAuth {
+    const aliases = this.readJson<{ orgs?: Record<string, string> }>('alias.json')?.orgs || {};
+    const username = aliases[aliasOrUsername] || aliasOrUsername;
+    const alias = aliases[aliasOrUsername] ? aliasOrUsername : undefined;
+
+    const stored = this.readJson<Record<string, any>>(`${username}.json`);
+    if (!stored) {
+      const known = Object.keys(aliases);
+      throw new NotFoundError(
+        `No Salesforce CLI login found for "${aliasOrUsername}" in ${this.directory}. ` +
+        (known.length > 0 ? `Known aliases: ${known.join(', ')}. ` : '') +
+        `Log in with: sf org login web --alias ${aliasOrUsername}`
+      );
+    }
+
+    if (!stored.instanceUrl || !stored.accessToken) {
+      throw new Error(`Salesforce CLI login for ${username} has no instance URL or access token; log in again with: sf org login web --alias ${alias || username}`);
+    }
+
+    if (stored.expirationDate && new Date(stored.expirationDate).getTime() < Date.now()) {
+      throw new AuthExpiredError(`Org ${alias || username} expired on ${stored.expirationDate}`);
+    }
+
+    return {
+      alias,
+      username,
+      instanceUrl: stored.instanceUrl,
+      accessToken: this.decrypt(stored.accessToken, 'access token', username),
+      refreshToken: stored.refreshToken ? this.decrypt(stored.refreshToken, 'refresh token', username) : undefined,
+      clientId: stored.clientId || SF_CLI_CLIENT_ID,
+      clientSecret: stored.clientSecret ? this.decrypt(stored.clientSecret, 'client secret', username) : undefined,
+      loginUrl: stored.loginUrl,
+      expirationDate: stored.expirationDate
+    };
+  }
+
+  private decrypt(value: string, field: string, username: string): string {
+    const match = ENCRYPTED_VALUE_PATTERN.exec(value);
+    if (!match) {
+      // Older CLI versions and some auth files store tokens in plain text
+      return value;
+    }
+
+    const key = this.loadKey(username);
+    const [, payload, tag] = match;
+
+    // v1 keys are 32 hex characters used as-is with a 12-character IV;
+    // v2 keys are 64 hex characters decoded to 32 bytes, with a 12-byte hex IV
+    const v2 = key.length === 64;
+    const ivLength = v2 ? 24 : 12;
+    try {
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        v2 ? Buffer.from(key, 'hex') : Buffer.from(key, 'utf8'),
+        v2 ? Buffer.from(payload.substring(0, ivLength), 'hex') : Buffer.from(payload.substring(0, ivLength), 'utf8')
+      );
+      decipher.setAuthTag(Buffer.from(tag, 'hex'));
+      return decipher.update(payload.substring(ivLength), 'hex', 'utf8') + decipher.final('utf8');
+    } catch (error) {
+      throw new Error(`Failed to decrypt the stored ${field} for ${username} with the key in ${path.join(this.directory, 'key.json')}: ${error}`);
+    }
+  }
+
+  private loadKey(username: string): string {
+    if (!this.key) {
+      const keyFile = this.readJson<{ key?: string }>('key.json');
+      if (!keyFile?.key) {
+        throw new Error(
+          `The access token for ${username} is encrypted with a key kept in the system keychain, which this tool cannot read. ` +
+          `Set SF_USE_GENERIC_UNIX_KEYCHAIN=true and log in again, or pass the token from "sf org display --target-org ${username} --verbose" via SF_SESSION_TOKEN`
+        );
+      }
+      this.key = keyFile.key;
+    }
+    return this.key;
+  }
+
+  private readJson<T>(fileName: string): T | undefined {
+    const filePath = path.join(this.directory, fileName);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+    } catch (error) {
+      throw new Error(`Failed to read ${filePath}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Wait for the given time, returning early if the signal is aborted.
+ * The abort listener is removed once the wait ends, so a long-lived signal
+ * shared by many waits doesn't collect listeners.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
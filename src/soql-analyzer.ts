@@ -0,0 +1,101 @@
+import { LogParser } from './log-parser';
+import { DebugLog, LogSoqlProfile, ParsedLog, RepeatedQuery, SoqlExecution } from './types';
+
+/**
+ * Default number of identical queries in one transaction before it is flagged as a repeat
+ */
+export const DEFAULT_REPEAT_THRESHOLD = 5;
+
+/**
+ * Profiles SOQL queries by pairing SOQL_EXECUTE_BEGIN/SOQL_EXECUTE_END events
+ */
+export class SoqlAnalyzer {
+  /**
+   * List every query in a parsed log with its row count, duration and calling line
+   */
+  static extract(parsed: ParsedLog): SoqlExecution[] {
+    const enclosingFrames = LogParser.mapEnclosingFrames(parsed);
+    const executions: SoqlExecution[] = [];
+
+    LogParser.walkScopes(parsed.scopes, scope => {
+      if (scope.type !== 'SOQL_EXECUTE_BEGIN') {
+        return;
+      }
+
+      const rowsField = scope.end?.fields.find(field => field.startsWith('Rows:'));
+      executions.push({
+        query: scope.name,
+        normalizedQuery: this.normalize(scope.name),
+        rows: rowsField ? parseInt(rowsField.substring('Rows:'.length), 10) : undefined,
+        durationMs: scope.durationNanos !== undefined ? scope.durationNanos / 1000000 : undefined,
+        sourceLine: scope.begin.sourceLine,
+        caller: enclosingFrames.get(scope.begin.index)?.name,
+        logLine: scope.begin.logLine
+      });
+    });
+
+    return executions.sort((a, b) => a.logLine - b.logLine);
+  }
+
+  /**
+   * Parse a raw log body and build its SOQL profile
+   */
+  static analyze(log: DebugLog, body: string, repeatThreshold: number = DEFAULT_REPEAT_THRESHOLD): LogSoqlProfile {
+    const queries = this.extract(LogParser.parse(body));
+
+    return {
+      log,
+      queries,
+      repeated: this.findRepeated(queries, repeatThreshold),
+      totalRows: queries.reduce((sum, query) => sum + (query.rows || 0), 0),
+      totalDurationMs: queries.reduce((sum, query) => sum + (query.durationMs || 0), 0)
+    };
+  }
+
+  /**
+   * Find normalized queries that ran at least `threshold` times, most frequent first.
+   * The same query shape running over and over in one transaction is the classic query-in-loop (N+1) bug.
+   */
+  static findRepeated(queries: SoqlExecution[], threshold: number = DEFAULT_REPEAT_THRESHOLD): RepeatedQuery[] {
+    const groups = new Map<string, RepeatedQuery>();
+
+    queries.forEach(query => {
+      const group = groups.get(query.normalizedQuery) || {
+        normalizedQuery: query.normalizedQuery,
+        count: 0,
+        totalRows: 0,
+        totalDurationMs: 0,
+        sourceLines: [],
+        callers: []
+      };
+      groups.set(query.normalizedQuery, group);
+
+      group.count++;
+      group.totalRows += query.rows || 0;
+      group.totalDurationMs += query.durationMs || 0;
+      if (query.sourceLine !== undefined && !group.sourceLines.includes(query.sourceLine)) {
+        group.sourceLines.push(query.sourceLine);
+      }
+      if (query.caller && !group.callers.includes(query.caller)) {
+        group.callers.push(query.caller);
+      }
+    });
+
+    return Array.from(groups.values())
+      .filter(group => group.count >= threshold)
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Reduce a query to its shape: literals, bind variables and IN lists become `?`
+   */
+  static normalize(query: string): string {
+    return query
+      .replace(/'(?:[^'\\]|\\.)*'/g, '?')
+      .replace(/:\s*[A-Za-z_][\w.]*/g, '?')
+      .replace(/\b\d+(\.\d+)?\b/g, '?')
+      .replace(/\bIN\s*\([^)]*\)/gi, 'IN (?)')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
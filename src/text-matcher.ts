@@ -0,0 +1,308 @@
+import { MatchOptions, MatchScope, MatchSpan } from './types';
+import { InvalidQueryError } from './errors';
+
+type QueryNode =
+  | { type: 'term'; index: number }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'and'; operands: QueryNode[] }
+  | { type: 'or'; operands: QueryNode[] };
+
+/**
+ * Compiled search query: plain text, regex or a boolean combination of terms.
+ *
+ * Every term is compiled to a global RegExp honouring the case, regex and whole-word
+ * options. With the 'line' scope a line matches when the query holds for that line;
+ * with the 'log' scope the query is evaluated against the whole body and the lines
+ * containing any positive (non-negated) term are reported.
+ */
+export class TextMatcher {
+  private constructor(
+    private expression: QueryNode,
+    private terms: RegExp[],
+    private positiveTerms: RegExp[],
+    private excludes: RegExp[],
+    private scope: MatchScope,
+    private captureGroups: boolean
+  ) {}
+
+  /**
+   * Compile a search query with the given options
+   */
+  static compile(searchText: string, options: MatchOptions = {}): TextMatcher {
+    if (!searchText) {
+      throw new InvalidQueryError('Search query must not be empty');
+    }
+
+    const toRegExp = (pattern: string) => this.toRegExp(pattern, options);
+
+    let expression: QueryNode;
+    let patterns: string[];
+    if (options.boolean) {
+      const parsed = new BooleanQueryParser(searchText).parse();
+      expression = parsed.expression;
+      patterns = parsed.terms;
+    } else {
+      expression = { type: 'term', index: 0 };
+      patterns = [searchText];
+    }
+
+    const terms = patterns.map(toRegExp);
+    const positive = new Set<number>();
+    this.collectPositiveTerms(expression, false, positive);
+    if (positive.size === 0) {
+      throw new InvalidQueryError(`Invalid search query "${searchText}": at least one term must not be negated`);
+    }
+
+    return new TextMatcher(
+      expression,
+      terms,
+      Array.from(positive).sort((a, b) => a - b).map(index => terms[index]),
+      (options.exclude || []).map(toRegExp),
+      options.matchScope || 'line',
+      !!options.regex
+    );
+  }
+
+  /**
+   * Whether the log as a whole can contain matches.
+   * With the 'log' scope this evaluates the query and exclusions against the full body;
+   * with the 'line' scope every log qualifies and lines are checked one by one.
+   */
+  matchesLog(body: string): boolean {
+    if (this.scope === 'line') {
+      return true;
+    }
+    return this.evaluate(this.expression, body) && !this.excludes.some(exclude => TextMatcher.test(exclude, body));
+  }
+
+  /**
+   * Spans of the query's positive terms in a line, or undefined when the line doesn't match
+   */
+  matchLine(line: string): MatchSpan[] | undefined {
+    if (this.scope === 'line') {
+      if (!this.evaluate(this.expression, line) || this.excludes.some(exclude => TextMatcher.test(exclude, line))) {
+        return undefined;
+      }
+    }
+
+    const spans = this.findSpans(line);
+    return spans.length > 0 ? spans : undefined;
+  }
+
+  private findSpans(line: string): MatchSpan[] {
+    const spans: MatchSpan[] = [];
+
+    this.positiveTerms.forEach(term => {
+      for (const match of line.matchAll(term)) {
+        const span: MatchSpan = {
+          start: match.index!,
+          end: match.index! + match[0].length,
+          text: match[0]
+        };
+        if (this.captureGroups && match.length > 1) {
+          span.groups = match.slice(1);
+        }
+        spans.push(span);
+      }
+    });
+
+    return spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  }
+
+  private evaluate(node: QueryNode, text: string): boolean {
+    switch (node.type) {
+      case 'term':
+        return TextMatcher.test(this.terms[node.index], text);
+      case 'not':
+        return !this.evaluate(node.operand, text);
+      case 'and':
+        return node.operands.every(operand => this.evaluate(operand, text));
+      case 'or':
+        return node.operands.some(operand => this.evaluate(operand, text));
+    }
+  }
+
+  private static test(pattern: RegExp, text: string): boolean {
+    // Global regexes remember where they stopped, so always test from the start
+    pattern.lastIndex = 0;
+    const found = pattern.test(text);
+    pattern.lastIndex = 0;
+    return found;
+  }
+
+  private static toRegExp(pattern: string, options: MatchOptions): RegExp {
+    let source = options.regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (options.wholeWord) {
+      // \b only works next to word characters, so look for non-word neighbours instead
+      source = `(?<![A-Za-z0-9_])(?:${source})(?![A-Za-z0-9_])`;
+    }
+
+    try {
+      return new RegExp(source, options.caseSensitive ? 'g' : 'gi');
+    } catch (error) {
+      throw new InvalidQueryError(`Invalid regular expression "${pattern}": ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private static collectPositiveTerms(node: QueryNode, negated: boolean, positive: Set<number>): void {
+    switch (node.type) {
+      case 'term':
+        if (!negated) {
+          positive.add(node.index);
+        }
+        break;
+      case 'not':
+        this.collectPositiveTerms(node.operand, !negated, positive);
+        break;
+      default:
+        node.operands.forEach(operand => this.collectPositiveTerms(operand, negated, positive));
+    }
+  }
+}
+
+type QueryToken =
+  | { type: 'term'; value: string }
+  | { type: 'keyword'; value: 'AND' | 'OR' | 'NOT' }
+  | { type: 'paren'; value: '(' | ')' };
+
+/**
+ * Recursive-descent parser for boolean search queries.
+ *
+ *   expression := term (OR term)*
+ *   term       := factor ([AND] factor)*
+ *   factor     := NOT factor | '(' expression ')' | TEXT
+ *
+ * TEXT is a "double-quoted" string or a bare word. Keywords must be upper case,
+ * so lower-case "and", "or" and "not" are searched for like any other word.
+ */
+class BooleanQueryParser {
+  private tokens: QueryToken[];
+  private position = 0;
+  private terms: string[] = [];
+
+  constructor(private query: string) {
+    this.tokens = this.tokenize(query);
+  }
+
+  parse(): { expression: QueryNode; terms: string[] } {
+    const expression = this.parseExpression();
+    if (this.position < this.tokens.length) {
+      this.fail(`unexpected "${this.tokens[this.position].value}"`);
+    }
+    return { expression, terms: this.terms };
+  }
+
+  private parseExpression(): QueryNode {
+    const operands = [this.parseTerm()];
+    while (this.matchKeyword('OR')) {
+      operands.push(this.parseTerm());
+    }
+    return operands.length > 1 ? { type: 'or', operands } : operands[0];
+  }
+
+  private parseTerm(): QueryNode {
+    const operands = [this.parseFactor()];
+    // Adjacent terms without an operator are combined with AND
+    while (this.matchKeyword('AND') || this.startsFactor(this.peek())) {
+      operands.push(this.parseFactor());
+    }
+    return operands.length > 1 ? { type: 'and', operands } : operands[0];
+  }
+
+  private parseFactor(): QueryNode {
+    if (this.matchKeyword('NOT')) {
+      return { type: 'not', operand: this.parseFactor() };
+    }
+
+    const token = this.next();
+    if (token?.type === 'paren' && token.value === '(') {
+      const inner = this.parseExpression();
+      const closing = this.next();
+      if (closing?.type !== 'paren' || closing.value !== ')') {
+        this.fail('missing closing parenthesis');
+      }
+      return inner;
+    }
+
+    if (token?.type !== 'term') {
+      this.fail(token ? `unexpected "${token.value}"` : 'expected a search term at the end of the query');
+    }
+
+    this.terms.push(token.value);
+    return { type: 'term', index: this.terms.length - 1 };
+  }
+
+  private startsFactor(token: QueryToken | undefined): boolean {
+    return token !== undefined && (
+      token.type === 'term' ||
+      (token.type === 'paren' && token.value === '(') ||
+      (token.type === 'keyword' && token.value === 'NOT')
+    );
+  }
+
+  private tokenize(input: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+      const char = input[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (char === '(' || char === ')') {
+        tokens.push({ type: 'paren', value: char });
+        i++;
+      } else if (char === '"') {
+        let value = '';
+        i++;
+        while (i < input.length && input[i] !== '"') {
+          // Only \" is an escape, so regex escapes like \d survive untouched
+          if (input[i] === '\\' && input[i + 1] === '"') {
+            i++;
+          }
+          value += input[i];
+          i++;
+        }
+        if (i >= input.length) {
+          this.fail('unterminated quoted term');
+        }
+        if (value.length === 0) {
+          this.fail('empty quoted term');
+        }
+        tokens.push({ type: 'term', value });
+        i++;
+      } else {
+        const word = /^[^\s()"]+/.exec(input.slice(i))![0];
+        if (word === 'AND' || word === 'OR' || word === 'NOT') {
+          tokens.push({ type: 'keyword', value: word });
+        } else {
+          tokens.push({ type: 'term', value: word });
+        }
+        i += word.length;
+      }
+    }
+
+    return tokens;
+  }
+
+  private peek(): QueryToken | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): QueryToken | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private matchKeyword(keyword: 'AND' | 'OR' | 'NOT'): boolean {
+    const token = this.peek();
+    if (token?.type === 'keyword' && token.value === keyword) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private fail(message: string): never {
+    throw new InvalidQueryError(`Invalid search query "${this.query}": ${message}`);
+  }
+}
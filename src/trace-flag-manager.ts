@@ -0,0 +1,302 @@
+import { SalesforceClient } from './salesforce-client';
+import { escapeSoqlString } from './apex-log-query';
+import {
+  DebugLevel,
+  DebugLevelCategory,
+  DebugLevelSettings,
+  LogLevel,
+  TraceFlag,
+  TraceFlagOptions,
+  TracedEntityType
+} from './types';
+import { NotFoundError } from './errors';
+
+export const LOG_LEVELS: LogLevel[] = ['NONE', 'ERROR', 'WARN', 'INFO', 'DEBUG', 'FINE', 'FINER', 'FINEST'];
+
+export const DEBUG_LEVEL_CATEGORIES: DebugLevelCategory[] = [
+  'ApexCode',
+  'ApexProfiling',
+  'Callout',
+  'Database',
+  'System',
+  'Validation',
+  'Visualforce',
+  'Workflow',
+  'Wave',
+  'Nba'
+];
+
+/**
+ * Named DebugLevel presets for common debugging sessions
+ */
+export const DEBUG_LEVEL_PRESETS: Record<string, Required<DebugLevelSettings>> = {
+  // What Setup suggests for a new user trace flag
+  default: {
+    ApexCode: 'DEBUG', ApexProfiling: 'INFO', Callout: 'INFO', Database: 'INFO', System: 'DEBUG',
+    Validation: 'INFO', Visualforce: 'INFO', Workflow: 'INFO', Wave: 'INFO', Nba: 'INFO'
+  },
+  // Everything, for stepping through code; logs get truncated quickly at this level
+  finest: {
+    ApexCode: 'FINEST', ApexProfiling: 'FINEST', Callout: 'FINEST', Database: 'FINEST', System: 'FINEST',
+    Validation: 'INFO', Visualforce: 'FINER', Workflow: 'FINER', Wave: 'FINEST', Nba: 'FINE'
+  },
+  // USER_DEBUG output and exceptions only
+  debug: {
+    ApexCode: 'DEBUG', ApexProfiling: 'NONE', Callout: 'NONE', Database: 'NONE', System: 'NONE',
+    Validation: 'NONE', Visualforce: 'NONE', Workflow: 'NONE', Wave: 'NONE', Nba: 'NONE'
+  },
+  // Query and DML detail for the soql command
+  soql: {
+    ApexCode: 'FINE', ApexProfiling: 'INFO', Callout: 'NONE', Database: 'FINEST', System: 'NONE',
+    Validation: 'NONE', Visualforce: 'NONE', Workflow: 'NONE', Wave: 'NONE', Nba: 'NONE'
+  },
+  // Cumulative limit usage for the limits command
+  limits: {
+    ApexCode: 'ERROR', ApexProfiling: 'FINEST', Callout: 'INFO', Database: 'INFO', System: 'NONE',
+    Validation: 'NONE', Visualforce: 'NONE', Workflow: 'NONE', Wave: 'NONE', Nba: 'NONE'
+  }
+};
+
+/**
+ * Salesforce rejects trace flags that run longer than 24 hours
+ */
+export const MAX_TRACE_FLAG_MINUTES = 24 * 60;
+
+const DEBUG_LEVEL_FIELDS = ['Id', 'DeveloperName', 'MasterLabel', ...DEBUG_LEVEL_CATEGORIES];
+const TRACE_FLAG_FIELDS = 'Id, TracedEntityId, LogType, DebugLevelId, StartDate, ExpirationDate, DebugLevel.DeveloperName';
+
+/**
+ * Creates, extends and removes TraceFlag records and manages DebugLevel records
+ * through the Tooling API
+ */
+export class TraceFlagManager {
+  private client: SalesforceClient;
+
+  constructor(client: SalesforceClient) {
+    this.client = client;
+  }
+
+  /**
+   * List trace flags, newest expiration first. Expired flags are skipped unless requested.
+   */
+  async listTraceFlags(includeExpired: boolean = false): Promise<TraceFlag[]> {
+    const whereClause = includeExpired ? '' : ` WHERE ExpirationDate > ${new Date().toISOString()}`;
+    return this.client.toolingQuery<TraceFlag>(
+      `SELECT ${TRACE_FLAG_FIELDS} FROM TraceFlag${whereClause} ORDER BY ExpirationDate DESC`
+    );
+  }
+
+  /**
+   * Find the trace flag for a traced entity, if any. Expired flags are skipped unless requested.
+   */
+  async findTraceFlag(tracedEntityId: string, includeExpired: boolean = false): Promise<TraceFlag | undefined> {
+    const expiryCondition = includeExpired ? '' : ` AND ExpirationDate > ${new Date().toISOString()}`;
+    const [flag] = await this.client.toolingQuery<TraceFlag>(
+      `SELECT ${TRACE_FLAG_FIELDS} FROM TraceFlag WHERE TracedEntityId = '${escapeSoqlString(tracedEntityId)}'${expiryCondition} ORDER BY ExpirationDate DESC LIMIT 1`
+    );
+    return flag;
+  }
+
+  /**
+   * Create a trace flag for a user, Apex class or trigger.
+   * The debug level is looked up by DeveloperName.
+   */
+  async createTraceFlag(options: TraceFlagOptions): Promise<TraceFlag> {
+    const tracedEntityId = await this.resolveTracedEntity(options.entityType, options.entity);
+    const debugLevel = await this.getDebugLevel(options.debugLevel);
+    if (!debugLevel) {
+      throw new NotFoundError(`Debug level "${options.debugLevel}" not found. Create it with "debug-level create ${options.debugLevel}"`);
+    }
+
+    const existing = await this.findTraceFlag(tracedEntityId);
+    if (existing) {
+      throw new Error(`An active trace flag (${existing.Id}) already exists for ${options.entity}. Use "trace extend ${existing.Id}" or remove it first`);
+    }
+
+    const { startDate, expirationDate } = this.expirationWindow(options.durationMinutes);
+    const fields = {
+      TracedEntityId: tracedEntityId,
+      LogType: options.entityType === 'user' ? 'USER_DEBUG' : 'CLASS_TRACING',
+      DebugLevelId: debugLevel.Id,
+      StartDate: startDate,
+      ExpirationDate: expirationDate
+    };
+    const id = await this.client.createToolingRecord('TraceFlag', fields);
+
+    return { Id: id, ...fields, DebugLevel: { DeveloperName: debugLevel.DeveloperName } };
+  }
+
+  /**
+   * Restart a trace flag's window from now, optionally switching its debug level
+   */
+  async extendTraceFlag(traceFlagId: string, durationMinutes?: number, debugLevelName?: string): Promise<{ startDate: string; expirationDate: string }> {
+    const window = this.expirationWindow(durationMinutes);
+    const fields: Record<string, unknown> = {
+      StartDate: window.startDate,
+      ExpirationDate: window.expirationDate
+    };
+
+    if (debugLevelName) {
+      const debugLevel = await this.getDebugLevel(debugLevelName);
+      if (!debugLevel) {
+        throw new NotFoundError(`Debug level "${debugLevelName}" not found`);
+      }
+      fields.DebugLevelId = debugLevel.Id;
+    }
+
+    await this.client.updateToolingRecord('TraceFlag', traceFlagId, fields);
+    return window;
+  }
+
+  /**
+   * Put a trace flag back to a previously captured state, including its original
+   * expiration, so a flag that had already expired is expired again rather than
+   * left active until now.
+   */
+  async restoreTraceFlag(original: TraceFlag): Promise<void> {
+    await this.client.updateToolingRecord('TraceFlag', original.Id, {
+      DebugLevelId: original.DebugLevelId,
+      StartDate: original.StartDate,
+      ExpirationDate: original.ExpirationDate
+    });
+  }
+
+  /**
+   * Delete a trace flag
+   */
+  async removeTraceFlag(traceFlagId: string): Promise<void> {
+    await this.client.deleteToolingRecord('TraceFlag', traceFlagId);
+  }
+
+  /**
+   * List all debug levels
+   */
+  async listDebugLevels(): Promise<DebugLevel[]> {
+    return this.client.toolingQuery<DebugLevel>(
+      `SELECT ${DEBUG_LEVEL_FIELDS.join(', ')} FROM DebugLevel ORDER BY DeveloperName`
+    );
+  }
+
+  /**
+   * Look up a debug level by DeveloperName
+   */
+  async getDebugLevel(developerName: string): Promise<DebugLevel | undefined> {
+    const [debugLevel] = await this.client.toolingQuery<DebugLevel>(
+      `SELECT ${DEBUG_LEVEL_FIELDS.join(', ')} FROM DebugLevel WHERE DeveloperName = '${escapeSoqlString(developerName)}' LIMIT 1`
+    );
+    return debugLevel;
+  }
+
+  /**
+   * Create a debug level from a preset, with optional per-category overrides
+   */
+  async createDebugLevel(developerName: string, preset: string = 'default', overrides: DebugLevelSettings = {}): Promise<DebugLevel> {
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(developerName) || developerName.includes('__') || developerName.endsWith('_')) {
+      throw new Error(`Invalid debug level name "${developerName}". Use letters, digits and single underscores, starting with a letter`);
+    }
+
+    const settings = { ...this.getPreset(preset), ...this.validateSettings(overrides) };
+    const fields = { DeveloperName: developerName, MasterLabel: developerName, ...settings };
+    const id = await this.client.createToolingRecord('DebugLevel', fields);
+
+    return { Id: id, ...fields };
+  }
+
+  /**
+   * Update a debug level's categories, starting from a preset if one is given
+   */
+  async updateDebugLevel(developerName: string, preset?: string, overrides: DebugLevelSettings = {}): Promise<DebugLevel> {
+    const existing = await this.getDebugLevel(developerName);
+    if (!existing) {
+      throw new NotFoundError(`Debug level "${developerName}" not found`);
+    }
+
+    const settings = { ...(preset ? this.getPreset(preset) : {}), ...this.validateSettings(overrides) };
+    if (Object.keys(settings).length === 0) {
+      throw new Error('Nothing to change: pass a preset or at least one category level');
+    }
+
+    await this.client.updateToolingRecord('DebugLevel', existing.Id, settings);
+    return { ...existing, ...settings };
+  }
+
+  /**
+   * Read the category levels set on a debug level record
+   */
+  static settingsOf(debugLevel: DebugLevel): DebugLevelSettings {
+    const settings: DebugLevelSettings = {};
+    DEBUG_LEVEL_CATEGORIES.forEach(category => {
+      if (debugLevel[category]) {
+        settings[category] = debugLevel[category];
+      }
+    });
+    return settings;
+  }
+
+  /**
+   * Get a debug level by name, creating it from a preset if it doesn't exist yet
+   */
+  async ensureDebugLevel(developerName: string, preset: string = 'default'): Promise<DebugLevel> {
+    return (await this.getDebugLevel(developerName)) || this.createDebugLevel(developerName, preset);
+  }
+
+  /**
+   * Resolve the record ID for a traced entity: a user ID, or an Apex class/trigger name or ID
+   */
+  async resolveTracedEntity(entityType: TracedEntityType, entity: string): Promise<string> {
+    if (/^[a-zA-Z0-9]{15}([a-zA-Z0-9]{3})?$/.test(entity) && /\d/.test(entity)) {
+      return entity;
+    }
+
+    if (entityType === 'user') {
+      throw new Error(`Invalid user ID: ${entity}`);
+    }
+
+    const sobjectType = entityType === 'class' ? 'ApexClass' : 'ApexTrigger';
+    const [record] = await this.client.toolingQuery<{ Id: string }>(
+      `SELECT Id FROM ${sobjectType} WHERE Name = '${escapeSoqlString(entity)}' LIMIT 1`
+    );
+    if (!record) {
+      throw new NotFoundError(`${sobjectType} "${entity}" not found`);
+    }
+    return record.Id;
+  }
+
+  private expirationWindow(durationMinutes: number = 60): { startDate: string; expirationDate: string } {
+    if (!Number.isFinite(durationMinutes) || durationMinutes <= 0) {
+      throw new Error(`Invalid trace flag duration: ${durationMinutes} minutes`);
+    }
+    if (durationMinutes > MAX_TRACE_FLAG_MINUTES) {
+      throw new Error(`Trace flags can run for at most ${MAX_TRACE_FLAG_MINUTES} minutes (24 hours)`);
+    }
+
+    const start = new Date();
+    const expiration = new Date(start.getTime() + durationMinutes * 60 * 1000);
+    return { startDate: start.toISOString(), expirationDate: expiration.toISOString() };
+  }
+
+  private getPreset(preset: string): Required<DebugLevelSettings> {
+    const settings = DEBUG_LEVEL_PRESETS[preset];
+    if (!settings) {
+      throw new Error(`Unknown preset "${preset}". Available presets: ${Object.keys(DEBUG_LEVEL_PRESETS).join(', ')}`);
+    }
+    return settings;
+  }
+
+  private validateSettings(settings: DebugLevelSettings): DebugLevelSettings {
+    const validated: DebugLevelSettings = {};
+
+    (Object.entries(settings) as [DebugLevelCategory, string | undefined][]).forEach(([category, level]) => {
+      if (level === undefined) {
+        return;
+      }
+      const upper = level.toUpperCase() as LogLevel;
+      if (!LOG_LEVELS.includes(upper)) {
+        throw new Error(`Invalid level "${level}" for ${category}. Use one of: ${LOG_LEVELS.join(', ')}`);
+      }
+      validated[category] = upper;
+    });
+
+    return validated;
+  }
+}
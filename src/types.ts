@@ -1,7 +1,83 @@
-export interface SalesforceConfig {
+export interface RefreshTokenAuth {
+  type: 'refreshToken';
+  clientId: string;
+  clientSecret?: string;
+  refreshToken: string;
+  loginUrl?: string;
+}
+
+export interface JwtBearerAuth {
+  type: 'jwt';
+  clientId: string;
+  username: string;
+  privateKey: string;
+  loginUrl?: string;
+}
+
+export type OAuthConfig = RefreshTokenAuth | JwtBearerAuth;
+
+export interface AccessToken {
+  accessToken: string;
+  instanceUrl?: string;
+  issuedAt: string;
+}
+
+export interface SfCliOrgAuth {
+  alias?: string;
+  username: string;
+  instanceUrl: string;
+  accessToken: string;
+  refreshToken?: string;
+  clientId: string;
+  clientSecret?: string;
+  loginUrl?: string;
+  expirationDate?: string;
+}
+
+export interface OrgProfile {
+  instanceUrl?: string;
+  apiVersion?: string;
+  sessionToken?: string;
+  targetOrg?: string;
+  clientId?: string;
+  clientSecret?: string;
+  refreshToken?: string;
+  username?: string;
+  privateKey?: string;
+  loginUrl?: string;
+  outputDir?: string;
+  maxResults?: number;
+  excludeUsers?: string[];
+}
+
+export interface ProfileConfigFile {
+  defaultOrg?: string;
+  orgs: Record<string, OrgProfile>;
+}
+
+export interface RequestPolicyOptions {
+  maxRetries?: number;
+  maxApiUsagePercent?: number;
+}
+
+export interface ApiUsage {
+  used: number;
+  max: number;
+}
+
+export interface ApiCallStats {
+  requests: number;
+  retries: number;
+  usage?: ApiUsage;
+}
+
+export interface SalesforceConfig extends EventOptions {
   instanceUrl: string;
-  sessionToken: string;
+  sessionToken?: string;
   apiVersion?: string;
+  auth?: OAuthConfig;
+  requestPolicy?: RequestPolicyOptions;
+  userNames?: boolean;
 }
 
 export interface DebugLog {
@@ -16,6 +92,20 @@ export interface DebugLog {
   DurationMilliseconds: number;
   StartTime: string;
   Location: string;
+  // Name of the user who wrote the log, when user names are looked up
+  LogUser?: LogUser;
+}
+
+export interface LogUser {
+  Name: string;
+  Username: string;
+}
+
+export interface SalesforceUser {
+  Id: string;
+  Name: string;
+  Username: string;
+  Email?: string;
 }
 
 export interface DebugLogBody {
@@ -23,31 +113,168 @@ export interface DebugLogBody {
   Body: string;
 }
 
-export interface SearchOptions {
-  searchText: string;
-  caseSensitive?: boolean;
-  maxResults?: number;
+export interface QueryResponse<T> {
+  totalSize: number;
+  done: boolean;
+  records: T[];
+  nextRecordsUrl?: string;
+}
+
+export interface PagedResult<T> {
+  records: T[];
+  totalSize: number;
+  truncated: boolean;
+  truncationReason?: string;
+}
+
+export interface DebugLogPage {
+  records: DebugLog[];
+  page: number;
+  totalSize: number;
+}
+
+export interface StreamOptions {
+  maxLogs?: number;
+  signal?: AbortSignal;
+}
+
+export interface SearchStreamOptions {
+  useAllLogs?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LogFilters {
   dateFrom?: string;
   dateTo?: string;
   userId?: string;
+  userIds?: string[];
+  excludeUserIds?: string[];
+  where?: string;
+}
+
+export type MatchScope = 'line' | 'log';
+
+export interface MatchOptions {
+  caseSensitive?: boolean;
+  regex?: boolean;
+  wholeWord?: boolean;
+  exclude?: string[];
+  boolean?: boolean;
+  matchScope?: MatchScope;
+}
+
+export interface SearchOptions extends LogFilters, MatchOptions {
+  searchText: string;
+  maxResults?: number;
+  concurrency?: number;
+  maxMatchingLogs?: number;
+}
+
+export interface SearchProgress {
+  processed: number;
+  total: number;
+  matched: number;
+  failed: number;
+  bytesProcessed: number;
+  elapsedMs: number;
+  etaMs?: number;
+}
+
+export interface SearchCallbacks {
+  onResult?: (result: SearchResult) => void;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+/**
+ * Receives the library's status messages and warnings
+ */
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+export interface BatchFetchedEvent {
+  page: number;
+  records: number;
+  fetched: number;
+  totalSize: number;
+}
+
+export interface LogSearchedEvent {
+  log: DebugLog;
+  org?: string;
+  matches: number;
+  bytes: number;
+}
+
+export interface LogDownloadedEvent {
+  log: DebugLog;
+  filePath: string;
+  org?: string;
+}
+
+export type FailedOperation = 'query' | 'retrieve' | 'cache' | 'save' | 'delete';
+
+export interface FailureEvent {
+  operation: FailedOperation;
+  error: unknown;
+  logId?: string;
+  org?: string;
+}
+
+export interface LibraryEvents {
+  onBatchFetched?: (event: BatchFetchedEvent) => void;
+  onLogSearched?: (event: LogSearchedEvent) => void;
+  onLogDownloaded?: (event: LogDownloadedEvent) => void;
+  onFailure?: (event: FailureEvent) => void;
+}
+
+/**
+ * How a library class reports progress. Without a logger it prints nothing.
+ */
+export interface EventOptions {
+  logger?: Logger;
+  events?: LibraryEvents;
+}
+
+export interface TailOptions extends LogFilters, MatchOptions {
+  searchText?: string;
+  operation?: string;
+  status?: string;
+  pollIntervalMs?: number;
+}
+
+export interface TailedLog {
+  log: DebugLog;
+  body: string;
+  matches: LogMatch[];
 }
 
 export interface SearchResult {
   log: DebugLog;
   matches: LogMatch[];
+  org?: string;
+}
+
+export interface MatchSpan {
+  start: number;
+  end: number;
+  text: string;
+  groups?: (string | undefined)[];
 }
 
 export interface LogMatch {
   lineNumber: number;
   line: string;
   context?: string[];
+  spans?: MatchSpan[];
 }
 
 export interface DownloadOptions {
   outputDir: string;
   includeMetadata?: boolean;
   createSummary?: boolean;
-  verbose?: boolean;
+  reportPath?: string;
 }
 
 export interface DownloadResult {
@@ -59,3 +286,300 @@ export interface DownloadResult {
   downloadPath: string;
   estimatedSize: number;
 }
+
+export interface LogHeader {
+  apiVersion?: string;
+  debugLevels: Record<string, string>;
+  preamble: string[];
+}
+
+export interface LogEvent {
+  index: number;
+  logLine: number;
+  timestamp: string;
+  elapsedNanos: number;
+  type: string;
+  sourceLine?: number;
+  fields: string[];
+  continuation: string[];
+  depth: number;
+  debug?: {
+    level: string;
+    message: string;
+  };
+}
+
+export interface LogScope {
+  type: string;
+  name: string;
+  begin: LogEvent;
+  end?: LogEvent;
+  durationNanos?: number;
+  depth: number;
+  events: LogEvent[];
+  children: LogScope[];
+}
+
+export interface ParsedLog {
+  header: LogHeader;
+  events: LogEvent[];
+  scopes: LogScope[];
+}
+
+export type GovernorLimitName = 'soqlQueries' | 'queryRows' | 'dmlStatements' | 'dmlRows' | 'cpuTime' | 'heapSize' | 'callouts';
+
+export interface LimitUsage {
+  used: number;
+  max: number;
+  percent: number;
+}
+
+export interface NamespaceLimits {
+  namespace: string;
+  limits: Partial<Record<GovernorLimitName, LimitUsage>>;
+  all: Record<string, LimitUsage>;
+}
+
+export interface LogLimitReport {
+  log: DebugLog;
+  namespaces: NamespaceLimits[];
+  peak?: {
+    limit: GovernorLimitName;
+    namespace: string;
+    usage: LimitUsage;
+  };
+}
+
+export interface ErrorOccurrence {
+  log: DebugLog;
+  eventType: string;
+  exceptionType: string;
+  message: string;
+  topFrame?: string;
+  signature: string;
+  logLine: number;
+  org?: string;
+}
+
+export interface ErrorGroup {
+  signature: string;
+  exceptionType: string;
+  topFrame?: string;
+  sampleMessage: string;
+  count: number;
+  logCount: number;
+  firstSeen: string;
+  lastSeen: string;
+  users: string[];
+  sampleLogIds: string[];
+  orgs?: string[];
+}
+
+export interface SoqlExecution {
+  query: string;
+  normalizedQuery: string;
+  rows?: number;
+  durationMs?: number;
+  sourceLine?: number;
+  caller?: string;
+  logLine: number;
+}
+
+export interface RepeatedQuery {
+  normalizedQuery: string;
+  count: number;
+  totalRows: number;
+  totalDurationMs: number;
+  sourceLines: number[];
+  callers: string[];
+}
+
+export interface LogSoqlProfile {
+  log: DebugLog;
+  queries: SoqlExecution[];
+  repeated: RepeatedQuery[];
+  totalRows: number;
+  totalDurationMs: number;
+}
+
+export type LogLevel = 'NONE' | 'ERROR' | 'WARN' | 'INFO' | 'DEBUG' | 'FINE' | 'FINER' | 'FINEST';
+
+export type DebugLevelCategory =
+  | 'ApexCode'
+  | 'ApexProfiling'
+  | 'Callout'
+  | 'Database'
+  | 'System'
+  | 'Validation'
+  | 'Visualforce'
+  | 'Workflow'
+  | 'Wave'
+  | 'Nba';
+
+export type DebugLevelSettings = Partial<Record<DebugLevelCategory, LogLevel>>;
+
+export interface DebugLevel extends DebugLevelSettings {
+  Id: string;
+  DeveloperName: string;
+  MasterLabel: string;
+}
+
+export type TracedEntityType = 'user' | 'class' | 'trigger';
+
+export interface TraceFlag {
+  Id: string;
+  TracedEntityId: string;
+  LogType: string;
+  DebugLevelId: string;
+  StartDate: string | null;
+  ExpirationDate: string;
+  DebugLevel?: {
+    DeveloperName: string;
+  };
+}
+
+export interface TraceFlagOptions {
+  entityType: TracedEntityType;
+  entity: string;
+  debugLevel: string;
+  durationMinutes?: number;
+}
+
+export interface CaptureOptions {
+  userId: string;
+  debugLevel: string;
+  preset?: string;
+  durationMinutes: number;
+}
+
+export interface CaptureSummary {
+  userId: string;
+  debugLevel: string;
+  traceFlagId?: string;
+  reusedTraceFlag: boolean;
+  startedAt: string;
+  endedAt?: string;
+  capturedLogIds: string[];
+  download?: DownloadResult;
+  cleanup: string[];
+  cleanupErrors: string[];
+}
+
+export interface SyncManifestEntry {
+  fileName: string;
+  sha256: string;
+  size: number;
+  lastModifiedDate: string;
+  downloadedAt: string;
+}
+
+export interface SyncManifest {
+  version: number;
+  instanceUrl: string;
+  lastSyncedAt?: string;
+  logs: Record<string, SyncManifestEntry>;
+}
+
+export interface SyncOptions extends LogFilters {
+  outputDir: string;
+  maxLogs?: number;
+  includeMetadata?: boolean;
+  verify?: boolean;
+}
+
+export interface SyncResult {
+  totalLogs: number;
+  alreadySynced: number;
+  downloaded: number;
+  repaired: number;
+  failedDownloads: string[];
+  bytesDownloaded: number;
+  manifestPath: string;
+}
+
+export interface UserCacheOptions {
+  directory?: string;
+  ttlMs?: number;
+}
+
+export interface UserCacheEntry {
+  user: SalesforceUser;
+  cachedAt: string;
+}
+
+export interface LogBodyCacheOptions {
+  directory?: string;
+  maxBytes?: number;
+}
+
+export interface LogBodyCacheEntry {
+  sha256: string;
+  size: number;
+  cachedAt: string;
+  lastAccessedAt: string;
+}
+
+export interface LogBodyCacheIndex {
+  version: number;
+  hits: number;
+  misses: number;
+  entries: Record<string, LogBodyCacheEntry>;
+}
+
+export interface LogBodyCacheStats {
+  directory: string;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  orgs: Record<string, { entries: number; bytes: number }>;
+  oldestAccessAt?: string;
+  newestAccessAt?: string;
+}
+
+export type OutputFormat = 'text' | 'json' | 'ndjson' | 'csv' | 'table';
+
+export type OutputValue = string | number | boolean | undefined;
+
+/**
+ * A command result in every machine-readable shape: one JSON document,
+ * a stream of NDJSON records, and flat rows for CSV and tables
+ */
+export interface FormattedOutput {
+  document: unknown;
+  records: unknown[];
+  columns: string[];
+  rows: Record<string, OutputValue>[];
+}
+
+export interface LogCountSummary {
+  org?: string;
+  totalLogs: number;
+  totalBytes: number;
+  oldest?: string;
+  newest?: string;
+  truncated: boolean;
+  breakdown?: {
+    byUser: Record<string, number>;
+    byOperation: Record<string, number>;
+    byStatus: Record<string, number>;
+    users?: Record<string, LogUser>;
+  };
+}
+
+export interface DeleteOutcome {
+  dryRun: boolean;
+  requested: string[];
+  deleted: string[];
+  failed: string[];
+}
+
+export interface HtmlReportData {
+  title: string;
+  searchText: string;
+  generatedAt: string;
+  totalLogsSearched: number;
+  results: SearchResult[];
+  download?: DownloadResult;
+}
@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileUtils } from './file-utils';
+import { DEFAULT_CACHE_DIR, LogBodyCache } from './log-body-cache';
+import { SalesforceUser, UserCacheEntry, UserCacheOptions } from './types';
+
+export const USER_CACHE_FILE = 'users.json';
+export const DEFAULT_USER_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * On-disk cache of the users that wrote debug logs, next to the log body cache.
+ *
+ * Entries are keyed `<org>|<userId>` like the body cache. Unlike log bodies, names and
+ * usernames can change, so entries expire after a day and are then looked up again.
+ */
+export class UserCache {
+  readonly directory: string;
+  readonly ttlMs: number;
+  private entries?: Record<string, UserCacheEntry>;
+
+  constructor(options: UserCacheOptions = {}) {
+    this.directory = options.directory || DEFAULT_CACHE_DIR;
+    this.ttlMs = options.ttlMs ?? DEFAULT_USER_CACHE_TTL_MS;
+  }
+
+  /**
+   * Get a cached user, or undefined when it isn't cached or has expired
+   */
+  get(instanceUrl: string, userId: string): SalesforceUser | undefined {
+    const entry = this.load()[UserCache.key(instanceUrl, userId)];
+    if (!entry || Date.now() - Date.parse(entry.cachedAt) > this.ttlMs) {
+      return undefined;
+    }
+    return entry.user;
+  }
+
+  /**
+   * Store users looked up in an org
+   */
+  set(instanceUrl: string, users: SalesforceUser[]): void {
+    if (users.length === 0) {
+      return;
+    }
+
+    const entries = this.load();
+    const now = new Date().toISOString();
+    users.forEach(user => {
+      entries[UserCache.key(instanceUrl, user.Id)] = { user, cachedAt: now };
+    });
+    this.save();
+  }
+
+  /**
+   * Remove all cached users, or only those of one org
+   */
+  clear(instanceUrl?: string): number {
+    const entries = this.load();
+    const prefix = instanceUrl ? `${LogBodyCache.orgKey(instanceUrl)}|` : '';
+    const keys = Object.keys(entries).filter(key => key.startsWith(prefix));
+
+    keys.forEach(key => delete entries[key]);
+    this.save();
+    return keys.length;
+  }
+
+  /**
+   * Number of cached users, expired ones included
+   */
+  get size(): number {
+    return Object.keys(this.load()).length;
+  }
+
+  private load(): Record<string, UserCacheEntry> {
+    if (!this.entries) {
+      try {
+        this.entries = JSON.parse(fs.readFileSync(path.join(this.directory, USER_CACHE_FILE), 'utf8')) || {};
+      } catch {
+        // Missing or corrupt file: users are simply looked up again
+        this.entries = {};
+      }
+    }
+    return this.entries!;
+  }
+
+  private save(): void {
+    FileUtils.ensureDirectoryExists(this.directory);
+    const filePath = path.join(this.directory, USER_CACHE_FILE);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.entries), 'utf8');
+    fs.renameSync(tempPath, filePath);
+  }
+
+  private static key(instanceUrl: string, userId: string): string {
+    return `${LogBodyCache.orgKey(instanceUrl)}|${userId}`;
+  }
+}